@@ -6,13 +6,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/AuthPage";
+import LoginPage from "@/pages/LoginPage";
 import ProfilePage from "@/pages/ProfilePage";
 import VerifyPage from "@/pages/VerifyPage";
 import SuccessPage from "@/pages/SuccessPage";
+import DocumentPage from "@/pages/DocumentPage";
 import ResetPasswordPage from "@/pages/ResetPasswordPage";
 import NewPasswordPage from "@/pages/NewPasswordPage";
 import AdminPage from "@/pages/AdminPage";
+import SupervisorPage from "@/pages/SupervisorPage";
 import { ProtectedRoute } from "@/lib/protected-route";
+import { Permissions } from "@shared/permissions";
 import { useEffect } from "react";
 
 function Router() {
@@ -20,18 +24,25 @@ function Router() {
     <Switch>
       <Route path="/" component={AuthPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/login" component={LoginPage} />
       <Route path="/profile">
-        <ProtectedRoute>
+        <ProtectedRoute permission={Permissions.OWN_LOG}>
           <ProfilePage />
         </ProtectedRoute>
       </Route>
       <Route path="/admin">
-        <ProtectedRoute>
+        <ProtectedRoute permission={Permissions.READ_USERS}>
           <AdminPage />
         </ProtectedRoute>
       </Route>
+      <Route path="/supervisor">
+        <ProtectedRoute>
+          <SupervisorPage />
+        </ProtectedRoute>
+      </Route>
       <Route path="/verify/:token" component={VerifyPage} />
       <Route path="/success" component={SuccessPage} />
+      <Route path="/documents/:documentId" component={DocumentPage} />
       <Route path="/reset-password" component={ResetPasswordPage} />
       <Route path="/reset-password/:token" component={NewPasswordPage} />
       <Route component={NotFound} />
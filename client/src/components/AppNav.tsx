@@ -0,0 +1,29 @@
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, Permissions, type Permission } from "@shared/permissions";
+
+const navItems: { href: string; label: string; permission: Permission }[] = [
+  { href: "/profile", label: "My OJT Log", permission: Permissions.OWN_LOG },
+  { href: "/supervisor", label: "Supervisor Dashboard", permission: Permissions.SIGN_ENTRIES },
+  { href: "/admin", label: "Admin", permission: Permissions.READ_USERS },
+];
+
+// Links to the other pages the signed-in user's roles give access to
+export function AppNav() {
+  const { user } = useAuth();
+  const [location] = useLocation();
+
+  const items = navItems.filter(
+    (item) => item.href !== location && hasPermission(user, item.permission)
+  );
+
+  return (
+    <>
+      {items.map((item) => (
+        <Link key={item.href} href={item.href} className="text-sm text-primary hover:text-primary/80">
+          {item.label}
+        </Link>
+      ))}
+    </>
+  );
+}
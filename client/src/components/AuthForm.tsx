@@ -9,6 +9,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { apiRequest } from "@/lib/queryClient";
+import { landingPage } from "@/lib/protected-route";
 import { Loader2 } from "lucide-react";
 
 // Form validation schemas
@@ -76,14 +77,8 @@ export function AuthForm() {
       
       // Wait to make sure everything is updated
       setTimeout(() => {
-        // Redirect based on admin status
-        if (userData && userData.isAdmin) {
-          console.log("User is admin, redirecting to admin page");
-          window.location.href = "/admin";
-        } else {
-          console.log("User is not admin, redirecting to profile page");
-          window.location.href = "/profile";
-        }
+        // Redirect to the page the user's roles open on
+        window.location.href = landingPage(userData);
       }, 500);
     } catch (err) {
       console.error("Login error:", err);
@@ -197,6 +192,15 @@ export function AuthForm() {
               >
                 Forgot password?
               </Button>
+              
+              <Button 
+                variant="link" 
+                type="button"
+                className="w-full text-center"
+                onClick={() => setLocation("/login")}
+              >
+                Email me a login link instead
+              </Button>
             </div>
           </form>
         </Form>
@@ -0,0 +1,115 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CertificationRequirement, Entry, User } from "@shared/schema";
+import { computeCertificationProgress, PROJECTION_WINDOW_DAYS } from "@shared/certification";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMethods } from "@/hooks/use-methods";
+
+interface CertificationProgressPanelProps {
+  user: User;
+  entries: Entry[];
+}
+
+export function CertificationProgressPanel({ user, entries }: CertificationProgressPanelProps) {
+  const { toast } = useToast();
+  const { methods, methodLabel } = useMethods();
+
+  const { data: requirements = [] } = useQuery<CertificationRequirement[]>({
+    queryKey: ["/api/certification-requirements"],
+  });
+
+  const schemes = useMemo(
+    () => Array.from(new Set(requirements.map((requirement) => requirement.scheme))),
+    [requirements]
+  );
+  const scheme = user.certificationScheme || schemes[0];
+
+  const progress = useMemo(
+    () =>
+      computeCertificationProgress(
+        entries,
+        requirements.filter((requirement) => requirement.scheme === scheme),
+        methods.map((method) => method.code)
+      ),
+    [entries, requirements, scheme, methods]
+  );
+
+  const handleSchemeChange = async (value: string) => {
+    try {
+      const res = await apiRequest("PATCH", "/api/user", { certificationScheme: value });
+      queryClient.setQueryData(["/api/user"], await res.json());
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to change certification scheme. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (requirements.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 space-y-2 sm:space-y-0">
+        <div>
+          <h2 className="text-lg font-semibold text-neutral-900">Certification Progress</h2>
+          <p className="text-sm text-neutral-500">
+            Verified hours against the experience required for each level. Projections use your logging rate over the last {PROJECTION_WINDOW_DAYS} days.
+          </p>
+        </div>
+        <Select value={scheme} onValueChange={handleSchemeChange}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Select scheme" />
+          </SelectTrigger>
+          <SelectContent>
+            {schemes.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {progress.map((method) => (
+          <div key={method.method} className="border border-neutral-200 rounded-md p-4">
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="font-medium text-neutral-900">{methodLabel(method.method)}</span>
+              <span className="text-xs text-neutral-500">
+                {method.hoursPerWeek.toFixed(1)} h/week
+                {method.pendingHours > 0 && ` · ${method.pendingHours.toFixed(1)} h awaiting verification`}
+              </span>
+            </div>
+
+            {method.levels.map((level) => (
+              <div key={level.level} className="mb-3 last:mb-0">
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-neutral-700">{level.level}</span>
+                  <span className="text-neutral-900">
+                    {method.verifiedHours.toFixed(1)} / {level.requiredHours.toFixed(0)} h
+                  </span>
+                </div>
+                <Progress value={level.percent} className="h-2" />
+                <p className="text-xs text-neutral-500 mt-1">
+                  {level.achieved
+                    ? "Experience requirement met"
+                    : level.projectedCompletion
+                      ? `${level.remainingHours.toFixed(1)} h to go · projected ${new Date(level.projectedCompletion).toLocaleDateString()}`
+                      : `${level.remainingHours.toFixed(1)} h to go · no recent hours to project from`}
+                </p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
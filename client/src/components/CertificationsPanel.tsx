@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Certification } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { certificationFormSchema, type CertificationFormValues } from "@/types";
+import { useMethods } from "@/hooks/use-methods";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date | string | null) =>
+  date ? new Date(date).toISOString().split("T")[0] : "";
+
+const emptyForm: CertificationFormValues = {
+  method: "",
+  level: "Level I",
+  scheme: "SNT-TC-1A",
+  certificateNumber: "",
+  issuedBy: "",
+  issuedAt: "",
+  expiresAt: "",
+  visionExamAt: "",
+};
+
+// Days until a date, and how urgent that is for display
+function dueStatus(date: Date) {
+  const daysLeft = Math.ceil((date.getTime() - Date.now()) / DAY_MS);
+  if (daysLeft < 0) return { text: `Lapsed ${date.toLocaleDateString()}`, className: "text-red-700" };
+  if (daysLeft <= 90) return { text: `${date.toLocaleDateString()} (${daysLeft} days)`, className: "text-amber-700" };
+  return { text: date.toLocaleDateString(), className: "text-neutral-900" };
+}
+
+export function CertificationsPanel() {
+  const [editing, setEditing] = useState<Certification | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { activeMethods, methodLabel } = useMethods();
+
+  const { data: certifications = [] } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications"],
+  });
+
+  const form = useForm<CertificationFormValues>({
+    resolver: zodResolver(certificationFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const openDialog = (certification: Certification | null) => {
+    setEditing(certification);
+    form.reset(
+      certification
+        ? {
+            method: certification.method,
+            level: certification.level as CertificationFormValues["level"],
+            scheme: certification.scheme,
+            certificateNumber: certification.certificateNumber,
+            issuedBy: certification.issuedBy,
+            issuedAt: toDateInput(certification.issuedAt),
+            expiresAt: toDateInput(certification.expiresAt),
+            visionExamAt: toDateInput(certification.visionExamAt),
+          }
+        : emptyForm
+    );
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: CertificationFormValues) => {
+    setIsSaving(true);
+
+    try {
+      const data = { ...values, visionExamAt: values.visionExamAt || null };
+      if (editing) {
+        await apiRequest("PATCH", `/api/certifications/${editing.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/certifications", data);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to save certification. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (certification: Certification) => {
+    try {
+      await apiRequest("DELETE", `/api/certifications/${certification.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to delete certification. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const textField = (name: keyof CertificationFormValues, label: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} value={field.value ?? ""} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-neutral-900">Certifications</h2>
+        <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Certification
+        </Button>
+      </div>
+
+      {certifications.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          No certifications recorded. Add them to get reminders before they or your vision exam lapse.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-neutral-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Method</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Level</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Scheme</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Certificate #</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Issued By</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Issued</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Expires</th>
+                <th className="px-4 py-2 text-left font-medium text-neutral-500">Vision Exam Due</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {certifications.map((certification) => {
+                const expiry = dueStatus(new Date(certification.expiresAt));
+                const visionDue = certification.visionExamAt ? new Date(certification.visionExamAt) : null;
+                visionDue?.setFullYear(visionDue.getFullYear() + 1);
+                const vision = visionDue ? dueStatus(visionDue) : null;
+
+                return (
+                  <tr key={certification.id}>
+                    <td className="px-4 py-2">
+                      {methodLabel(certification.method)}
+                    </td>
+                    <td className="px-4 py-2">{certification.level}</td>
+                    <td className="px-4 py-2">{certification.scheme}</td>
+                    <td className="px-4 py-2">{certification.certificateNumber}</td>
+                    <td className="px-4 py-2">{certification.issuedBy}</td>
+                    <td className="px-4 py-2">{new Date(certification.issuedAt).toLocaleDateString()}</td>
+                    <td className={`px-4 py-2 ${expiry.className}`}>{expiry.text}</td>
+                    <td className={`px-4 py-2 ${vision?.className ?? ""}`}>{vision?.text ?? "-"}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openDialog(certification)} title="Edit certification">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(certification)} title="Delete certification">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Certification" : "Add Certification"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select method" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeMethods.map((option) => (
+                          <SelectItem key={option.code} value={option.code}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Level</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Level I">Level I</SelectItem>
+                        <SelectItem value="Level II">Level II</SelectItem>
+                        <SelectItem value="Level III">Level III</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textField("scheme", "Scheme")}
+              {textField("certificateNumber", "Certificate Number")}
+              {textField("issuedBy", "Issuing Level III")}
+              {textField("issuedAt", "Issue Date", "date")}
+              {textField("expiresAt", "Expiry Date", "date")}
+              {textField("visionExamAt", "Last Vision Exam", "date")}
+
+              <DialogFooter className="col-span-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Entry, EntryHistory } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+import { useMethods } from "@/hooks/use-methods";
+
+interface EntryHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entry: Entry;
+}
+
+const actionLabels: Record<string, string> = {
+  requested: "Verification requested from",
+  edited: "Edited",
+  verified: "Verified by",
+  rejected: "Rejected by",
+};
+
+const actionColors: Record<string, string> = {
+  requested: "text-neutral-700",
+  edited: "text-amber-700",
+  verified: "text-green-700",
+  rejected: "text-red-700",
+};
+
+export function EntryHistoryModal({ isOpen, onClose, entry }: EntryHistoryModalProps) {
+  const { entryMethodsLabel } = useMethods();
+  const { data: history = [], isLoading } = useQuery<EntryHistory[]>({
+    queryKey: [`/api/entries/${entry.id}/history`],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Entry History</DialogTitle>
+          <DialogDescription>
+            Every verification round for this entry, with the values as they were at the time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-neutral-500 py-4">No verification activity yet.</p>
+        ) : (
+          <ol className="space-y-3 max-h-96 overflow-y-auto">
+            {history.map((item) => (
+              <li key={item.id} className="bg-neutral-100 rounded-md p-3 text-sm">
+                <div className="flex justify-between">
+                  <span className={`font-medium ${actionColors[item.action] || ""}`}>
+                    {actionLabels[item.action] || item.action} {item.actorName}
+                  </span>
+                  <span className="text-neutral-500">
+                    {item.createdAt ? new Date(item.createdAt).toLocaleString() : ""}
+                  </span>
+                </div>
+                <div className="text-neutral-700 mt-1">
+                  {new Date(item.date).toLocaleDateString()} · {item.location} · {entryMethodsLabel(item)} · {item.hours.toFixed(1)} h
+                </div>
+                {item.comment && (
+                  <div className="text-neutral-900 mt-1">Reason: {item.comment}</div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
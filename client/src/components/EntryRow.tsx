@@ -1,45 +1,299 @@
-import { Entry } from "@shared/schema";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Entry, Job, MethodHours } from "@shared/schema";
+import { jobLabel } from "@shared/jobs";
+import { entryLines, linesToEntry } from "@shared/methods";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useMethods } from "@/hooks/use-methods";
+import { EMAIL_DELIVERY_KEY } from "@/hooks/use-email-delivery";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EntryHistoryModal } from "@/components/EntryHistoryModal";
+import { JobPicker, JOBS_KEY } from "@/components/JobPicker";
+import { MethodLinesInput } from "@/components/MethodLinesInput";
+import { Badge } from "@/components/ui/badge";
+import { type EntryCheckResult, type RequestEmailStatus, type VerificationReminderStatus } from "@/types";
+import { Ban, History, Pencil, RotateCw, Trash2 } from "lucide-react";
 
 interface EntryRowProps {
   entry: Entry;
-  onVerifyRequest: (entry: Entry) => void;
+  isSelected: boolean;
+  onSelectChange: (entry: Entry, selected: boolean) => void;
+  onVerifyRequest: (entries: Entry[]) => void;
+  // Method columns of the log table, in order
+  methodCodes: string[];
+  // Delivery of the email for the entry's pending verification request
+  delivery?: RequestEmailStatus;
+  // Reminders sent to the supervisor for that request
+  reminders?: VerificationReminderStatus;
 }
 
-export function EntryRow({ entry, onVerifyRequest }: EntryRowProps) {
+// A claimed email is still on its way, so it shows as queued
+const deliveryLabels = {
+  queued: { label: "Email queued", className: "text-neutral-500" },
+  sending: { label: "Email queued", className: "text-neutral-500" },
+  sent: { label: "Email sent", className: "text-green-700" },
+  failed: { label: "Email failed", className: "text-red-700" },
+};
+
+export function EntryRow({ entry, isSelected, onSelectChange, onVerifyRequest, methodCodes, delivery, reminders }: EntryRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [date, setDate] = useState("");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [location, setLocation] = useState("");
+  const [lines, setLines] = useState<MethodHours[]>([]);
+  const { toast } = useToast();
+  const { methods } = useMethods();
+  // An entry logged under a since-retired method can keep it when edited
+  const methodChoices = methods.filter(
+    (option) => option.active || entryLines(entry).some((line) => line.method === option.code)
+  );
+
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: JOBS_KEY,
+  });
+  const job = jobs.find(({ id }) => id === entry.jobId);
+
   const formatDate = (date: Date | string) => {
     return new Date(date).toLocaleDateString();
   };
-  
+
+  const startEditing = () => {
+    setDate(new Date(entry.date).toISOString().split("T")[0]);
+    setJobId(entry.jobId);
+    setLocation(entry.location);
+    setLines(entryLines(entry));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const isValidLines =
+      lines.every((line) => line.method && line.hours > 0) &&
+      new Set(lines.map((line) => line.method)).size === lines.length;
+    if (!date || !location.trim() || !isValidLines) {
+      toast({
+        title: "Invalid entry",
+        description: "Date, location, and a different method with hours greater than 0 on each line are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const edited = { date, jobId, location: location.trim(), ...linesToEntry(lines) };
+
+      // Warnings are saved as flags; errors stop the edit
+      const res = await apiRequest("POST", "/api/entries/check", { entries: [edited], editingId: entry.id });
+      const check: EntryCheckResult = await res.json();
+      const error = check.issues[0].find((issue) => issue.severity === "error");
+      if (error) {
+        toast({
+          title: "Invalid entry",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await apiRequest("PATCH", `/api/entries/${entry.id}`, edited);
+
+      queryClient.invalidateQueries({ queryKey: ["/api/entries"] });
+      setIsEditing(false);
+
+      toast({
+        title: "Entry updated",
+        description: "Any pending verification request was cancelled. Request verification again when ready.",
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to update entry. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest("DELETE", `/api/entries/${entry.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/entries"] });
+
+      toast({
+        title: "Entry deleted",
+        description: "The entry has been removed from your log.",
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to delete entry. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setShowDeleteDialog(false);
+    }
+  };
+
+  const handleCancelRequest = async () => {
+    if (!entry.verificationRequestId) return;
+
+    try {
+      await apiRequest("DELETE", `/api/verification-requests/${entry.verificationRequestId}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/entries"] });
+
+      toast({
+        title: "Request cancelled",
+        description: "The verification link no longer works. You can send a new request at any time.",
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the verification request. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResendEmail = async () => {
+    if (!entry.verificationRequestId) return;
+
+    try {
+      const res = await apiRequest("POST", `/api/verification-requests/${entry.verificationRequestId}/resend`);
+      const result: { message: string; sent: boolean } = await res.json();
+      queryClient.invalidateQueries({ queryKey: EMAIL_DELIVERY_KEY });
+
+      toast({
+        title: result.sent ? "Email sent" : "Email not sent yet",
+        description: result.message,
+        variant: result.sent ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to resend the verification email. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Create hour cells for each NDT method
   const createHourCell = (method: string) => {
-    if (entry.method === method) {
+    const line = entryLines(entry).find((candidate) => candidate.method === method);
+    if (line) {
       return (
-        <td className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900">
-          {entry.hours.toFixed(1)}
+        <td key={method} className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900">
+          {line.hours.toFixed(1)}
         </td>
       );
     }
-    return <td className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900"></td>;
+    return <td key={method} className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900"></td>;
   };
-  
+
+  if (isEditing) {
+    return (
+      <tr className="bg-amber-50">
+        <td className="px-4 py-3"></td>
+        <td className="px-4 py-3 whitespace-nowrap">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="sm:text-sm"
+          />
+        </td>
+        <td className="px-4 py-3 whitespace-nowrap space-y-2">
+          <JobPicker
+            value={jobId}
+            onChange={(picked) => {
+              setJobId(picked?.id ?? null);
+              if (picked) setLocation(picked.site);
+            }}
+          />
+          <Input
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Enter location"
+            className="sm:text-sm"
+          />
+        </td>
+        <td colSpan={methodCodes.length} className="px-4 py-3 whitespace-nowrap">
+          <MethodLinesInput value={lines} onChange={setLines} choices={methodChoices} />
+        </td>
+        <td className="px-4 py-3 whitespace-nowrap text-sm">
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={handleSave}
+              size="sm"
+              className="text-xs"
+              disabled={isSaving}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+            <Button
+              onClick={() => setIsEditing(false)}
+              size="sm"
+              variant="outline"
+              className="text-xs"
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+          </div>
+        </td>
+      </tr>
+    );
+  }
+
   return (
-    <tr className={entry.verified ? "bg-green-50" : ""}>
+    <tr className={entry.verified ? "bg-green-50" : entry.rejected ? "bg-red-50" : ""}>
+      <td className="px-4 py-3">
+        {!entry.verified && (
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={(checked) => onSelectChange(entry, checked === true)}
+            aria-label="Select entry for verification"
+          />
+        )}
+      </td>
       <td className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900">
         {formatDate(entry.date)}
+        {entry.flags.length > 0 && (
+          <Badge
+            variant="outline"
+            className="ml-2 border-amber-400 text-amber-700"
+            title={entry.flags.map((flag) => flag.message).join("\n")}
+          >
+            Flagged
+          </Badge>
+        )}
       </td>
       <td className="px-4 py-3 whitespace-nowrap text-sm text-neutral-900">
         {entry.location}
+        {job && <span className="block text-xs text-neutral-500">{jobLabel(job)}</span>}
       </td>
-      {createHourCell("ET")}
-      {createHourCell("RFT")}
-      {createHourCell("MT")}
-      {createHourCell("PT")}
-      {createHourCell("RT")}
-      {createHourCell("UT_THK")}
-      {createHourCell("UTSW")}
-      {createHourCell("PMI")}
-      {createHourCell("LSI")}
+      {methodCodes.map(createHourCell)}
       <td className="px-4 py-3 whitespace-nowrap text-sm">
         {entry.verified ? (
           <div className="flex items-center">
@@ -47,18 +301,138 @@ export function EntryRow({ entry, onVerifyRequest }: EntryRowProps) {
               <circle cx="4" cy="4" r="3" />
             </svg>
             <span className="text-green-700">Verified by {entry.verifiedBy}</span>
+            <Button
+              onClick={() => setShowHistory(true)}
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 ml-1"
+              title="Entry history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
           </div>
         ) : (
-          <Button 
-            onClick={() => onVerifyRequest(entry)}
-            size="sm"
-            variant="outline"
-            className="text-xs"
-          >
-            Request Verification
-          </Button>
+          <div className="flex items-center space-x-1">
+            {entry.rejected && (
+              <div className="mr-2 max-w-xs whitespace-normal">
+                <span className="text-red-700 font-medium">Rejected by {entry.rejectedBy}</span>
+                <p className="text-xs text-red-600">{entry.rejectionReason}</p>
+              </div>
+            )}
+            {entry.imported && !entry.verificationRequestId && !entry.rejected && (
+              <span className="mr-2 text-neutral-500" title="Imported from a paper log">
+                Imported{entry.importedVerifier ? ` (signed by ${entry.importedVerifier} on paper)` : ""}
+              </span>
+            )}
+            {entry.verificationRequestId && !entry.rejected && (
+              <span className="mr-2 text-amber-700">Awaiting verification</span>
+            )}
+            {entry.verificationRequestId && !entry.rejected && delivery && (
+              <span
+                className={`mr-2 text-xs ${deliveryLabels[delivery.status].className}`}
+                title={delivery.lastError ?? undefined}
+              >
+                {deliveryLabels[delivery.status].label}
+              </span>
+            )}
+            {entry.verificationRequestId && !entry.rejected && reminders && reminders.reminderCount > 0 && (
+              <span
+                className="mr-2 text-xs text-neutral-500"
+                title={reminders.createdAt ? `Requested ${formatDate(reminders.createdAt)}` : undefined}
+              >
+                Reminded {reminders.reminderCount}×
+                {reminders.lastRemindedAt && `, last ${formatDate(reminders.lastRemindedAt)}`}
+              </span>
+            )}
+            {entry.verificationRequestId && !entry.rejected && reminders?.escalatedAt && (
+              <span
+                className="mr-2 text-xs text-red-700"
+                title="Consider cancelling the request and asking another supervisor"
+              >
+                No response, you were notified {formatDate(reminders.escalatedAt)}
+              </span>
+            )}
+            {entry.verificationRequestId && !entry.rejected && delivery?.status === "failed" && (
+              <Button
+                onClick={handleResendEmail}
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                title="Resend verification email"
+              >
+                <RotateCw className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              onClick={() => onVerifyRequest([entry])}
+              size="sm"
+              variant="outline"
+              className="text-xs"
+            >
+              {entry.rejected ? "Resubmit" : entry.verificationRequestId ? "Resend" : "Request Verification"}
+            </Button>
+            {entry.verificationRequestId && !entry.rejected && (
+              <Button
+                onClick={handleCancelRequest}
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                title="Cancel verification request"
+              >
+                <Ban className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              onClick={startEditing}
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title="Edit entry"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setShowDeleteDialog(true)}
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title="Delete entry"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+            <Button
+              onClick={() => setShowHistory(true)}
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title="Entry history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          </div>
         )}
+
+        <EntryHistoryModal
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          entry={entry}
+        />
+
+        <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Entry</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete the {formatDate(entry.date)} entry at {entry.location}? This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete Entry</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </td>
     </tr>
   );
-}
\ No newline at end of file
+}
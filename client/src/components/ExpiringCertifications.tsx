@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { type ExpiringCertification } from "@/types";
+import { useMethods } from "@/hooks/use-methods";
+
+// Admin view of certifications and vision exams falling due in the next 90 days
+export function ExpiringCertifications() {
+  const { methodLabel } = useMethods();
+  const { data: expiring = [], isLoading, isError } = useQuery<ExpiringCertification[]>({
+    queryKey: ["/api/admin/certifications/expiring"],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-8 text-red-500">
+        Error loading certifications. Please try again.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Technician</TableHead>
+            <TableHead>Employee Number</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead>Level</TableHead>
+            <TableHead>Certificate #</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Vision Exam Due</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {expiring.length > 0 ? (
+            expiring.map(({ certification, user }) => {
+              const visionDue = certification.visionExamAt ? new Date(certification.visionExamAt) : null;
+              visionDue?.setFullYear(visionDue.getFullYear() + 1);
+              const isLapsed = (date: Date) => date.getTime() < Date.now();
+
+              return (
+                <TableRow key={certification.id}>
+                  <TableCell>{user.name || user.email}</TableCell>
+                  <TableCell>{user.employeeNumber || "-"}</TableCell>
+                  <TableCell>
+                    {methodLabel(certification.method)}
+                  </TableCell>
+                  <TableCell>{certification.level}</TableCell>
+                  <TableCell>{certification.certificateNumber}</TableCell>
+                  <TableCell className={isLapsed(new Date(certification.expiresAt)) ? "text-red-600" : ""}>
+                    {new Date(certification.expiresAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className={visionDue && isLapsed(visionDue) ? "text-red-600" : ""}>
+                    {visionDue ? visionDue.toLocaleDateString() : "-"}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-4">
+                Nothing expires in the next 90 days.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
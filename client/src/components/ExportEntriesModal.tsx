@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { useMethods } from "@/hooks/use-methods";
+
+interface ExportEntriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  endpoint: string;
+  description: string;
+}
+
+export function ExportEntriesModal({ isOpen, onClose, endpoint, description }: ExportEntriesModalProps) {
+  const [format, setFormat] = useState<"csv" | "xlsx">("csv");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [methods, setMethods] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { activeMethods } = useMethods();
+
+  const toggleMethod = (method: string, checked: boolean) => {
+    setMethods((current) =>
+      checked ? [...current, method] : current.filter((value) => value !== method)
+    );
+  };
+
+  const handleExport = async () => {
+    // No methods ticked means all methods
+    const params = new URLSearchParams({ format });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (methods.length > 0) params.set("methods", methods.join(","));
+
+    setIsExporting(true);
+
+    try {
+      await downloadFile(`${endpoint}?${params.toString()}`);
+      onClose();
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to export entries. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Entries</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as "csv" | "xlsx")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Methods</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {activeMethods.map((option) => (
+                <label key={option.code} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={methods.includes(option.code)}
+                    onCheckedChange={(checked) => toggleMethod(option.code, checked === true)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-neutral-500">Leave all unticked to include every method.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? "Exporting..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type ImportPreviewRow } from "@/types";
+
+interface ImportEntriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// POST the CSV and return the parsed body, surfacing the server's message on failure
+async function postCsv(url: string, csv: string) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ csv }),
+    credentials: "include",
+  });
+  const body = await res.json();
+  return { ok: res.ok, body };
+}
+
+export function ImportEntriesModal({ isOpen, onClose }: ImportEntriesModalProps) {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+  const [fileError, setFileError] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length;
+
+  const reset = () => {
+    setCsv("");
+    setFileName("");
+    setRows([]);
+    setFileError("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    setIsWorking(true);
+
+    try {
+      const { ok, body } = await postCsv("/api/entries/import/preview", text);
+      if (ok) {
+        setRows(body.rows);
+      } else {
+        setFileError(body.message || "The file could not be read.");
+      }
+    } catch (error) {
+      console.error(error);
+      setFileError("The file could not be read. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+
+    try {
+      const { ok, body } = await postCsv("/api/entries/import", csv);
+      if (!ok) {
+        if (body.rows) setRows(body.rows);
+        throw new Error(body.message || "Import failed");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/entries"] });
+      toast({
+        title: "Entries imported",
+        description: `${body.length} entries were added as unverified. Request verification when ready.`,
+      });
+      handleClose();
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Paper Logs</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with the columns date, location, method and hours, plus an optional verifier.
+            Imported entries start unverified so they can go through supervisor verification.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+          disabled={isWorking}
+        />
+
+        {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-neutral-700">
+              {fileName}: {rows.length} rows
+              {errorCount > 0 ? `, ${errorCount} with errors. Fix them and upload the file again.` : ", all valid."}
+            </p>
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <table className="min-w-full divide-y divide-neutral-200 text-sm">
+                <thead className="bg-neutral-100 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Line</th>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Date</th>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Location</th>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Method</th>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Hours</th>
+                    <th className="px-3 py-2 text-left font-medium text-neutral-500">Verifier</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-200">
+                  {rows.map((row) => (
+                    <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50" : ""}>
+                      <td className="px-3 py-2 align-top">{row.line}</td>
+                      <td className="px-3 py-2 align-top">
+                        {row.values.date}
+                        {row.date && row.date !== row.values.date && (
+                          <p className="text-xs text-neutral-500">
+                            {new Date(row.date).toLocaleDateString(undefined, {
+                              timeZone: "UTC",
+                              year: "numeric",
+                              month: "short",
+                              day: "numeric",
+                            })}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 align-top">{row.values.location}</td>
+                      <td className="px-3 py-2 align-top">{row.values.method}</td>
+                      <td className="px-3 py-2 align-top">{row.values.hours}</td>
+                      <td className="px-3 py-2 align-top">
+                        {row.values.verifier}
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-xs text-red-600">{error}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isWorking || rows.length === 0 || errorCount > 0}>
+            {isWorking ? "Working..." : `Import ${rows.length} Entries`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
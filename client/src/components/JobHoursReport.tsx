@@ -0,0 +1,93 @@
+import { Entry, Job } from "@shared/schema";
+import { summarizeJobHours } from "@shared/jobs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface JobHoursReportProps {
+  entries: Pick<Entry, "jobId" | "hours" | "verified">[];
+  jobs: Job[];
+}
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toLocaleDateString() : "-");
+
+// Hours logged against each job and each client, with the verified share
+export function JobHoursReport({ entries, jobs }: JobHoursReportProps) {
+  const report = summarizeJobHours(entries, jobs);
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead>Jobs</TableHead>
+              <TableHead>Entries</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>Verified Hours</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.clients.length > 0 ? (
+              report.clients.map((total) => (
+                <TableRow key={total.client}>
+                  <TableCell className="font-medium">{total.client}</TableCell>
+                  <TableCell>{total.jobCount}</TableCell>
+                  <TableCell>{total.entryCount}</TableCell>
+                  <TableCell>{total.hours.toFixed(1)}</TableCell>
+                  <TableCell>{total.verifiedHours.toFixed(1)}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-4">
+                  No hours have been logged against a job yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {report.jobs.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Site</TableHead>
+                <TableHead>Work Order / PO</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Verified Hours</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.jobs.map((total) => (
+                <TableRow key={total.jobId}>
+                  <TableCell>{total.job?.client ?? "Unknown client"}</TableCell>
+                  <TableCell>{total.job?.site ?? `Job #${total.jobId}`}</TableCell>
+                  <TableCell>{total.job?.workOrder || "-"}</TableCell>
+                  <TableCell>
+                    {total.job ? `${formatDate(total.job.startDate)} – ${formatDate(total.job.endDate)}` : "-"}
+                  </TableCell>
+                  <TableCell>{total.entryCount}</TableCell>
+                  <TableCell>{total.hours.toFixed(1)}</TableCell>
+                  <TableCell>{total.verifiedHours.toFixed(1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {report.unassigned.entryCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {report.unassigned.entryCount === 1 ? "1 entry" : `${report.unassigned.entryCount} entries`} (
+          {report.unassigned.hours.toFixed(1)} hours) {report.unassigned.entryCount === 1 ? "is" : "are"} not
+          linked to a job.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Job } from "@shared/schema";
+import { jobLabel } from "@shared/jobs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export const JOBS_KEY = ["/api/jobs"];
+
+interface JobPickerProps {
+  value: number | null;
+  onChange: (job: Job | null) => void;
+}
+
+const emptyJob = { client: "", site: "", workOrder: "", startDate: "", endDate: "" };
+
+// Search the jobs catalog, or add a job to it without leaving the entry form
+export function JobPicker({ value, onChange }: JobPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [newJob, setNewJob] = useState(emptyJob);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: JOBS_KEY,
+  });
+
+  const selected = jobs.find((job) => job.id === value);
+
+  const openCreateDialog = () => {
+    setNewJob({ ...emptyJob, client: search.trim() });
+    setOpen(false);
+    setIsCreateOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+
+    try {
+      const res = await apiRequest("POST", "/api/jobs", newJob);
+      const job: Job = await res.json();
+      queryClient.setQueryData<Job[]>(JOBS_KEY, (current = []) => [...current, job]);
+      onChange(job);
+      setIsCreateOpen(false);
+      setSearch("");
+    } catch (error) {
+      toast({
+        title: "Failed to add job",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (name: keyof typeof emptyJob, label: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={`job-${name}`}>{label}</Label>
+      <Input
+        id={`job-${name}`}
+        type={type}
+        value={newJob[name]}
+        onChange={(e) => setNewJob({ ...newJob, [name]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full min-w-48 justify-between font-normal sm:text-sm"
+          >
+            <span className="truncate">{selected ? jobLabel(selected) : "Select job"}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search client, site or work order..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>No matching jobs.</CommandEmpty>
+              <CommandGroup>
+                {selected && (
+                  <CommandItem
+                    value="No job"
+                    onSelect={() => {
+                      onChange(null);
+                      setOpen(false);
+                    }}
+                  >
+                    <span className="text-muted-foreground">No job</span>
+                  </CommandItem>
+                )}
+                {jobs.map((job) => (
+                  <CommandItem
+                    key={job.id}
+                    value={`${jobLabel(job)} #${job.id}`}
+                    onSelect={() => {
+                      onChange(job);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", job.id === value ? "opacity-100" : "opacity-0")} />
+                    {jobLabel(job)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            <div className="border-t p-1">
+              <Button type="button" variant="ghost" size="sm" className="w-full justify-start" onClick={openCreateDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                {search.trim() ? `Add job for "${search.trim()}"` : "Add new job"}
+              </Button>
+            </div>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Job</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            {field("client", "Client")}
+            {field("site", "Site")}
+            {field("workOrder", "Work Order / PO Number")}
+            <div />
+            {field("startDate", "Start Date", "date")}
+            {field("endDate", "End Date", "date")}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleCreate}
+              disabled={!newJob.client.trim() || !newJob.site.trim() || isSaving}
+            >
+              {isSaving ? "Saving..." : "Add Job"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -6,33 +6,32 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { loginFormSchema, type LoginFormValues } from "@/types";
-import { useLocation } from "wouter";
+import { magicLinkFormSchema, type MagicLinkFormValues } from "@/types";
 
 export function MagicLink() {
   const [isLoading, setIsLoading] = useState(false);
   const [isSent, setIsSent] = useState(false);
   const [directLink, setDirectLink] = useState<string | null>(null);
   const { toast } = useToast();
-  const [, setLocation] = useLocation();
   
-  const form = useForm<LoginFormValues>({
-    resolver: zodResolver(loginFormSchema),
+  const form = useForm<MagicLinkFormValues>({
+    resolver: zodResolver(magicLinkFormSchema),
     defaultValues: {
       email: "",
     },
   });
   
-  const handleSubmit = async (values: LoginFormValues) => {
+  const handleSubmit = async (values: MagicLinkFormValues) => {
     setIsLoading(true);
     
     try {
       const response = await apiRequest("POST", "/api/auth/request-magic-link", values);
+      const data = await response.json();
       setIsSent(true);
       
       // Check if we got a direct link (for development)
-      if (response.loginUrl) {
-        setDirectLink(response.loginUrl);
+      if (data.loginUrl) {
+        setDirectLink(data.loginUrl);
         toast({
           title: "Magic link ready!",
           description: "Email delivery failed, but you can use the direct link below.",
@@ -104,6 +103,7 @@ export function MagicLink() {
           <div className="bg-muted p-4 rounded-md">
             <p className="text-center text-sm text-muted-foreground">
               Magic link sent! Check your email and click the link to log in.
+              The link expires shortly and can only be used once.
             </p>
           </div>
         </div>
@@ -113,7 +113,7 @@ export function MagicLink() {
         <div className="mt-6">
           <div className="bg-muted p-4 rounded-md">
             <p className="text-center text-sm text-muted-foreground mb-3">
-              Email delivery failed (SendGrid requires verified sender), but you can use this direct link:
+              Email delivery failed, but you can use this direct link:
             </p>
             <Button 
               onClick={handleDirectLogin} 
@@ -0,0 +1,78 @@
+import { MethodHours } from "@shared/schema";
+import { type MethodColumn } from "@shared/methods";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+
+interface MethodLinesInputProps {
+  value: MethodHours[];
+  onChange: (lines: MethodHours[]) => void;
+  // Methods that may be picked, in catalog order
+  choices: MethodColumn[];
+}
+
+// Method and hours for a workday, with extra lines when the day is split across methods
+export function MethodLinesInput({ value, onChange, choices }: MethodLinesInputProps) {
+  const updateLine = (index: number, changes: Partial<MethodHours>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Only offer methods not already on another line
+  const choicesFor = (index: number) =>
+    choices.filter(
+      (option) => !value.some((line, i) => i !== index && line.method === option.code),
+    );
+
+  return (
+    <div className="space-y-2">
+      {value.map((line, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Select value={line.method} onValueChange={(method) => updateLine(index, { method })}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Select method" />
+            </SelectTrigger>
+            <SelectContent>
+              {choicesFor(index).map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="0.0"
+            value={line.hours || ""}
+            onChange={(e) => updateLine(index, { hours: parseFloat(e.target.value) || 0 })}
+            className="w-24 sm:text-sm"
+          />
+          {value.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="text-neutral-500 hover:text-status-error focus:outline-none"
+              title="Remove method"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {value.length < choices.length && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange([...value, { method: "", hours: 0 }])}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Split across another method
+        </Button>
+      )}
+    </div>
+  );
+}
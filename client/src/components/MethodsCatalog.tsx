@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { NdtMethod } from "@shared/schema";
+import { sortMethods } from "@shared/methods";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { METHODS_KEY, useMethods } from "@/hooks/use-methods";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Save } from "lucide-react";
+
+function MethodRow({ method }: { method: NdtMethod }) {
+  const [label, setLabel] = useState(method.label);
+  const [sortOrder, setSortOrder] = useState(method.sortOrder);
+  const { toast } = useToast();
+
+  const isDirty = label.trim() !== method.label || sortOrder !== method.sortOrder;
+
+  const update = async (changes: Partial<Pick<NdtMethod, "label" | "sortOrder" | "active">>) => {
+    try {
+      await apiRequest("PATCH", `/api/admin/methods/${method.id}`, changes);
+      queryClient.invalidateQueries({ queryKey: METHODS_KEY });
+      toast({ title: "Method updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update method",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-mono">{method.code}</TableCell>
+      <TableCell>
+        <Input value={label} onChange={(e) => setLabel(e.target.value)} className="w-48" />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          value={sortOrder}
+          onChange={(e) => setSortOrder(parseInt(e.target.value) || 0)}
+          className="w-24"
+        />
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={method.active}
+          onCheckedChange={(active) => update({ active })}
+          aria-label={`${method.label} active`}
+        />
+      </TableCell>
+      <TableCell>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => update({ label: label.trim(), sortOrder })}
+          disabled={!isDirty || !label.trim()}
+          title="Save"
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// Admin view of the NDT method catalog. Methods are retired rather than deleted, since entries keep their code.
+export function MethodsCatalog() {
+  const { methods, isLoading } = useMethods();
+  const [code, setCode] = useState("");
+  const [label, setLabel] = useState("");
+  const [sortOrder, setSortOrder] = useState(0);
+  const { toast } = useToast();
+
+  const handleAdd = async () => {
+    try {
+      await apiRequest("POST", "/api/admin/methods", {
+        code: code.trim(),
+        label: label.trim(),
+        sortOrder,
+      });
+      queryClient.invalidateQueries({ queryKey: METHODS_KEY });
+      setCode("");
+      setLabel("");
+      setSortOrder(0);
+      toast({ title: "Method added" });
+    } catch (error) {
+      toast({
+        title: "Failed to add method",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Label</TableHead>
+              <TableHead>Sort Order</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortMethods(methods).map((method) => (
+              <MethodRow key={`${method.id}-${method.label}-${method.sortOrder}`} method={method} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Input
+          placeholder="Code, e.g. PAUT"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className="w-40"
+        />
+        <Input placeholder="Label" value={label} onChange={(e) => setLabel(e.target.value)} className="w-48" />
+        <Input
+          type="number"
+          placeholder="Sort order"
+          value={sortOrder || ""}
+          onChange={(e) => setSortOrder(parseInt(e.target.value) || 0)}
+          className="w-28"
+        />
+        <Button onClick={handleAdd} disabled={!code.trim() || !label.trim()}>
+          Add Method
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -6,18 +6,29 @@ import { useToast } from "@/hooks/use-toast";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, X } from "lucide-react";
 import { z } from "zod";
-import { NDTMethods } from "@shared/schema";
+import { useMethods } from "@/hooks/use-methods";
+import { JobPicker } from "@/components/JobPicker";
+import { MethodLinesInput } from "@/components/MethodLinesInput";
+import { linesToEntry } from "@shared/methods";
+import { type EntryCheckResult, type EntryIssue } from "@/types";
 
 const formSchema = z.object({
   entries: z.array(
     z.object({
       date: z.string().min(1, "Date is required"),
+      jobId: z.number().nullable(),
       location: z.string().min(1, "Location is required"),
-      method: z.string().min(1, "Method is required"),
-      hours: z.number().min(0.1, "Hours must be greater than 0"),
+      // One line per method; more than one when the workday is split across methods
+      lines: z
+        .array(z.object({ method: z.string(), hours: z.number() }))
+        .refine((lines) => lines.every((line) => line.method), "Method is required")
+        .refine((lines) => lines.every((line) => line.hours >= 0.1), "Hours must be greater than 0")
+        .refine(
+          (lines) => new Set(lines.map((line) => line.method)).size === lines.length,
+          "Each method can only appear once"
+        ),
     })
   ),
 });
@@ -26,7 +37,11 @@ type FormValues = z.infer<typeof formSchema>;
 
 export function NewEntryForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Rule issues for each row from the last check; warnings must be seen once before saving
+  const [issues, setIssues] = useState<EntryIssue[][]>([]);
+  const [warningsShown, setWarningsShown] = useState(false);
   const { toast } = useToast();
+  const { activeMethods } = useMethods();
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -34,9 +49,9 @@ export function NewEntryForm() {
       entries: [
         {
           date: new Date().toISOString().split("T")[0],
+          jobId: null,
           location: "",
-          method: "",
-          hours: 0,
+          lines: [{ method: "", hours: 0 }],
         },
       ],
     },
@@ -47,12 +62,21 @@ export function NewEntryForm() {
     name: "entries",
   });
   
+  // Any change means the rows need checking again
+  useEffect(() => {
+    const subscription = form.watch(() => {
+      setIssues([]);
+      setWarningsShown(false);
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+  
   const handleAddEntry = () => {
     append({
       date: new Date().toISOString().split("T")[0],
+      jobId: null,
       location: "",
-      method: "",
-      hours: 0,
+      lines: [{ method: "", hours: 0 }],
     });
   };
   
@@ -63,11 +87,22 @@ export function NewEntryForm() {
       // Format entries for API
       const formattedEntries = values.entries.map((entry) => ({
         date: entry.date, // Server will convert to Date object
+        jobId: entry.jobId,
         location: entry.location,
-        method: entry.method,
-        hours: Number(entry.hours),
+        ...linesToEntry(entry.lines),
       }));
       
+      // Show rule errors and warnings against their rows before anything is saved
+      const res = await apiRequest("POST", "/api/entries/check", { entries: formattedEntries });
+      const check: EntryCheckResult = await res.json();
+      const hasErrors = check.issues.some((rowIssues) => rowIssues.some((issue) => issue.severity === "error"));
+      const hasWarnings = check.issues.some((rowIssues) => rowIssues.length > 0);
+      if (hasErrors || (hasWarnings && !warningsShown)) {
+        setIssues(check.issues);
+        setWarningsShown(!hasErrors);
+        return;
+      }
+      
       await apiRequest("POST", "/api/entries", formattedEntries);
       
       // Reset form with a single empty entry
@@ -75,9 +110,9 @@ export function NewEntryForm() {
         entries: [
           {
             date: new Date().toISOString().split("T")[0],
+            jobId: null,
             location: "",
-            method: "",
-            hours: 0,
+            lines: [{ method: "", hours: 0 }],
           },
         ],
       });
@@ -101,18 +136,6 @@ export function NewEntryForm() {
     }
   };
   
-  const methodOptions = [
-    { value: "ET", label: "ET" },
-    { value: "RFT", label: "RFT" },
-    { value: "MT", label: "MT" },
-    { value: "PT", label: "PT" },
-    { value: "RT", label: "RT" },
-    { value: "UT_THK", label: "UT Thk." },
-    { value: "UTSW", label: "UTSW" },
-    { value: "PMI", label: "PMI" },
-    { value: "LSI", label: "LSI" },
-  ];
-  
   return (
     <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
       <h2 className="text-lg font-semibold text-neutral-900 mb-4">Add New OJT Hours</h2>
@@ -124,116 +147,119 @@ export function NewEntryForm() {
               <thead>
                 <tr>
                   <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Job Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Job</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Job Location</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">NDT Method</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Hours</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">NDT Method &amp; Hours</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-neutral-200">
                 {fields.map((field, index) => (
-                  <tr key={field.id} className="new-entry-row">
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <FormField
-                        control={form.control}
-                        name={`entries.${index}.date`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input
-                                type="date"
-                                {...field}
-                                className="w-full border-neutral-200 rounded-md focus:ring-primary focus:border-primary sm:text-sm"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <FormField
-                        control={form.control}
-                        name={`entries.${index}.location`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter location"
-                                {...field}
-                                className="w-full border-neutral-200 rounded-md focus:ring-primary focus:border-primary sm:text-sm"
+                  <Fragment key={field.id}>
+                    <tr className="new-entry-row">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <FormField
+                          control={form.control}
+                          name={`entries.${index}.date`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  type="date"
+                                  {...field}
+                                  className="w-full border-neutral-200 rounded-md focus:ring-primary focus:border-primary sm:text-sm"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <FormField
+                          control={form.control}
+                          name={`entries.${index}.jobId`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <JobPicker
+                                value={field.value}
+                                onChange={(job) => {
+                                  field.onChange(job?.id ?? null);
+                                  // The job's site is where the work happened
+                                  if (job) {
+                                    form.setValue(`entries.${index}.location`, job.site, { shouldValidate: true });
+                                  }
+                                }}
                               />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <FormField
-                        control={form.control}
-                        name={`entries.${index}.method`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <Select
-                              onValueChange={field.onChange}
-                              defaultValue={field.value}
-                            >
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <FormField
+                          control={form.control}
+                          name={`entries.${index}.location`}
+                          render={({ field }) => (
+                            <FormItem>
                               <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select method" />
-                                </SelectTrigger>
+                                <Input
+                                  placeholder="Enter location"
+                                  {...field}
+                                  className="w-full border-neutral-200 rounded-md focus:ring-primary focus:border-primary sm:text-sm"
+                                />
                               </FormControl>
-                              <SelectContent>
-                                {methodOptions.map((option) => (
-                                  <SelectItem key={option.value} value={option.value}>
-                                    {option.label}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap">
-                      <FormField
-                        control={form.control}
-                        name={`entries.${index}.hours`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                step="0.5"
-                                placeholder="0.0"
-                                {...field}
-                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                                className="w-full border-neutral-200 rounded-md focus:ring-primary focus:border-primary sm:text-sm"
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap align-top">
+                        <FormField
+                          control={form.control}
+                          name={`entries.${index}.lines`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <MethodLinesInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                choices={activeMethods}
                               />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </td>
-                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        type="button"
-                        onClick={() => {
-                          if (fields.length > 1) {
-                            remove(index);
-                          }
-                        }}
-                        className="text-neutral-500 hover:text-status-error focus:outline-none"
-                        disabled={fields.length <= 1}
-                      >
-                        <X className="w-4 h-4" />
-                      </button>
-                    </td>
-                  </tr>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (fields.length > 1) {
+                              remove(index);
+                            }
+                          }}
+                          className="text-neutral-500 hover:text-status-error focus:outline-none"
+                          disabled={fields.length <= 1}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                    {issues[index]?.length > 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-4 pb-3 pt-0 text-sm">
+                          {issues[index].map((issue) => (
+                            <p
+                              key={issue.rule}
+                              className={issue.severity === "error" ? "text-red-600" : "text-amber-700"}
+                            >
+                              {issue.message}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
@@ -255,7 +281,7 @@ export function NewEntryForm() {
               disabled={isSubmitting}
               className="inline-flex items-center"
             >
-              {isSubmitting ? "Saving..." : "Save Entries"}
+              {isSubmitting ? "Saving..." : warningsShown ? "Save Anyway" : "Save Entries"}
             </Button>
           </div>
         </form>
@@ -1,58 +1,84 @@
-import { useMemo } from "react";
-import { Entry, NDTMethod, NDTMethods } from "@shared/schema";
+import { useMemo, useState } from "react";
+import { Entry } from "@shared/schema";
+import { entryMethodCodes, hoursByMethod, methodColumns } from "@shared/methods";
+import { useMethods } from "@/hooks/use-methods";
+import { useEmailDelivery } from "@/hooks/use-email-delivery";
+import { useVerificationReminders } from "@/hooks/use-verification-reminders";
 import { EntryRow } from "@/components/EntryRow";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 
 interface OJTTableProps {
   entries: Entry[];
-  onVerifyRequest: (entry: Entry) => void;
+  onVerifyRequest: (entries: Entry[]) => void;
 }
 
 export function OJTTable({ entries, onVerifyRequest }: OJTTableProps) {
-  // Calculate totals for each method
-  const totals = useMemo(() => {
-    const initialTotals: Record<string, number> = {
-      ET: 0,
-      RFT: 0,
-      MT: 0,
-      PT: 0,
-      RT: 0,
-      UT_THK: 0,
-      UTSW: 0,
-      PMI: 0,
-      LSI: 0,
-    };
-    
-    return entries.reduce((acc, entry) => {
-      acc[entry.method] += entry.hours;
-      return acc;
-    }, initialTotals);
-  }, [entries]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { methods } = useMethods();
+  const { deliveryFor } = useEmailDelivery();
+  const { remindersFor } = useVerificationReminders();
   
-  // Format method display name
-  const formatMethod = (method: string): string => {
-    if (method === 'UT_THK') return 'UT Thk.';
-    return method;
+  const columns = useMemo(
+    () => methodColumns(methods, entryMethodCodes(entries)),
+    [methods, entries]
+  );
+  
+  // Only unverified entries that are still in the log can be selected
+  const unverifiedEntries = useMemo(
+    () => entries.filter((entry) => !entry.verified),
+    [entries]
+  );
+  const selectedEntries = unverifiedEntries.filter((entry) => selectedIds.includes(entry.id));
+  const allSelected = unverifiedEntries.length > 0 && selectedEntries.length === unverifiedEntries.length;
+  
+  const handleSelectChange = (entry: Entry, selected: boolean) => {
+    setSelectedIds((ids) =>
+      selected ? [...ids, entry.id] : ids.filter((id) => id !== entry.id)
+    );
+  };
+  
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? unverifiedEntries.map((entry) => entry.id) : []);
   };
   
+  const handleBatchVerifyRequest = () => {
+    onVerifyRequest(selectedEntries);
+    setSelectedIds([]);
+  };
+
+  // Calculate totals for each method, counting each line of a split entry
+  const totals = useMemo(() => hoursByMethod(entries), [entries]);
+  
   return (
     <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
-      <h2 className="text-lg font-semibold text-neutral-900 mb-4">Experience Hours (OJT) Log</h2>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 space-y-2 sm:space-y-0">
+        <h2 className="text-lg font-semibold text-neutral-900">Experience Hours (OJT) Log</h2>
+        
+        {selectedEntries.length > 0 && (
+          <Button onClick={handleBatchVerifyRequest} size="sm">
+            Request Verification for {selectedEntries.length} {selectedEntries.length === 1 ? "Entry" : "Entries"}
+          </Button>
+        )}
+      </div>
       
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-neutral-200 ojt-table">
           <thead>
             <tr>
+              <th scope="col" className="px-4 py-3 text-left">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => handleSelectAll(checked === true)}
+                  disabled={unverifiedEntries.length === 0}
+                  aria-label="Select all unverified entries"
+                />
+              </th>
               <th scope="col" className="px-4 py-3 text-left">Job Date</th>
               <th scope="col" className="px-4 py-3 text-left">Job Location</th>
-              <th scope="col" className="px-4 py-3 text-left">ET</th>
-              <th scope="col" className="px-4 py-3 text-left">RFT</th>
-              <th scope="col" className="px-4 py-3 text-left">MT</th>
-              <th scope="col" className="px-4 py-3 text-left">PT</th>
-              <th scope="col" className="px-4 py-3 text-left">RT</th>
-              <th scope="col" className="px-4 py-3 text-left">UT Thk.</th>
-              <th scope="col" className="px-4 py-3 text-left">UTSW</th>
-              <th scope="col" className="px-4 py-3 text-left">PMI</th>
-              <th scope="col" className="px-4 py-3 text-left">LSI</th>
+              {columns.map((method) => (
+                <th key={method.code} scope="col" className="px-4 py-3 text-left">{method.label}</th>
+              ))}
               <th scope="col" className="px-4 py-3 text-left">Supervisor Signature</th>
             </tr>
           </thead>
@@ -61,22 +87,23 @@ export function OJTTable({ entries, onVerifyRequest }: OJTTableProps) {
               <EntryRow
                 key={entry.id}
                 entry={entry}
+                isSelected={selectedIds.includes(entry.id)}
+                onSelectChange={handleSelectChange}
                 onVerifyRequest={onVerifyRequest}
+                methodCodes={columns.map((method) => method.code)}
+                delivery={deliveryFor(entry.verificationRequestId)}
+                reminders={remindersFor(entry.verificationRequestId)}
               />
             ))}
           </tbody>
           <tfoot>
             <tr className="bg-neutral-100">
-              <td colSpan={2} className="px-4 py-3 text-sm font-medium text-neutral-900">Total Hours:</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.ET.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.RFT.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.MT.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.PT.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.RT.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.UT_THK.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.UTSW.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.PMI.toFixed(1)}</td>
-              <td className="px-4 py-3 text-sm font-medium text-neutral-900">{totals.LSI.toFixed(1)}</td>
+              <td colSpan={3} className="px-4 py-3 text-sm font-medium text-neutral-900">Total Hours:</td>
+              {columns.map((method) => (
+                <td key={method.code} className="px-4 py-3 text-sm font-medium text-neutral-900">
+                  {(totals[method.code] ?? 0).toFixed(1)}
+                </td>
+              ))}
               <td className="px-4 py-3 text-sm font-medium text-neutral-900"></td>
             </tr>
           </tfoot>
@@ -87,6 +114,8 @@ export function OJTTable({ entries, onVerifyRequest }: OJTTableProps) {
         <div className="flex items-center justify-end space-x-1">
           <span className="inline-block w-3 h-3 rounded-full bg-green-100"></span>
           <span>Verified Entry</span>
+          <span className="inline-block w-3 h-3 rounded-full bg-red-100 ml-4"></span>
+          <span>Rejected Entry</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Organization, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Trash2 } from "lucide-react";
+
+const ORGANIZATIONS_KEY = ["/api/admin/organizations"];
+
+// Global admin view of the companies sharing this deployment
+export function OrganizationsPanel({ users }: { users: User[] }) {
+  const [name, setName] = useState("");
+  const [emailDomain, setEmailDomain] = useState("");
+  const { toast } = useToast();
+
+  const { data: organizations = [], isLoading } = useQuery<Organization[]>({
+    queryKey: ORGANIZATIONS_KEY,
+  });
+
+  const handleAdd = async () => {
+    try {
+      await apiRequest("POST", "/api/admin/organizations", {
+        name: name.trim(),
+        emailDomain: emailDomain.trim() || null,
+      });
+      queryClient.invalidateQueries({ queryKey: ORGANIZATIONS_KEY });
+      setName("");
+      setEmailDomain("");
+      toast({ title: "Organization added" });
+    } catch (error) {
+      toast({
+        title: "Failed to add organization",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (organization: Organization) => {
+    try {
+      await apiRequest("DELETE", `/api/admin/organizations/${organization.id}`);
+      queryClient.invalidateQueries({ queryKey: ORGANIZATIONS_KEY });
+    } catch (error) {
+      toast({
+        title: "Failed to delete organization",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email Domain</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {organizations.length > 0 ? (
+              organizations.map((organization) => {
+                const memberCount = users.filter((user) => user.organizationId === organization.id).length;
+
+                return (
+                  <TableRow key={organization.id}>
+                    <TableCell>{organization.name}</TableCell>
+                    <TableCell>{organization.emailDomain || "-"}</TableCell>
+                    <TableCell>{memberCount}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(organization)}
+                        disabled={memberCount > 0}
+                        title={memberCount > 0 ? "Move members out before deleting" : "Delete"}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-4">
+                  No organizations yet. Users without one are only visible to global admins.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Input
+          placeholder="Organization name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-56"
+        />
+        <Input
+          placeholder="Email domain, e.g. example.com (optional)"
+          value={emailDomain}
+          onChange={(e) => setEmailDomain(e.target.value)}
+          className="w-72"
+        />
+        <Button onClick={handleAdd} disabled={!name.trim()}>
+          Add Organization
+        </Button>
+      </div>
+    </div>
+  );
+}
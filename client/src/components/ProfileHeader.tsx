@@ -1,11 +1,21 @@
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User } from "@shared/schema";
+import { Locale, NotificationPreferences, User } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useLocation } from "wouter";
-import { FileSpreadsheet } from "lucide-react";
-import { generatePdf } from "@/lib/pdf";
+import { FileDown, FileSpreadsheet, FileUp } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import { ExportEntriesModal } from "@/components/ExportEntriesModal";
+import { ImportEntriesModal } from "@/components/ImportEntriesModal";
+import { AppNav } from "@/components/AppNav";
+
+const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
 
 interface ProfileHeaderProps {
   user: Partial<User>;
@@ -14,6 +24,8 @@ interface ProfileHeaderProps {
 
 export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   
@@ -32,6 +44,34 @@ export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
     }
   };
   
+  const handleLocaleChange = async (locale: string) => {
+    try {
+      const res = await apiRequest("PATCH", "/api/user", { locale });
+      queryClient.setQueryData(["/api/user"], await res.json());
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to change email language. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handlePreferenceChange = async (changes: Partial<NotificationPreferences>) => {
+    try {
+      const res = await apiRequest("PATCH", "/api/user", { notificationPreferences: changes });
+      queryClient.setQueryData(["/api/user"], await res.json());
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error",
+        description: "Failed to change email preferences. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const handleExportPdf = async () => {
     if (verifiedEntries.length === 0) {
       toast({
@@ -45,7 +85,7 @@ export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
     setIsExporting(true);
     
     try {
-      await generatePdf(verifiedEntries, user);
+      await downloadFile("/api/entries/export.pdf");
       toast({
         title: "PDF exported",
         description: "Your verified hours have been exported as PDF.",
@@ -69,6 +109,7 @@ export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
           <h1 className="text-xl font-semibold text-neutral-900">OJT Hours Tracker</h1>
           
           <div className="flex items-center space-x-4">
+            <AppNav />
             <span className="text-sm text-neutral-500">{user.email}</span>
             <button 
               onClick={handleLogout}
@@ -88,9 +129,56 @@ export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
               {user.employeeNumber && (
                 <p className="text-sm text-neutral-500">Employee #: {user.employeeNumber}</p>
               )}
+              <div className="mt-2 flex items-center space-x-2">
+                <span className="text-sm text-neutral-500">Email language:</span>
+                <Select value={user.locale ?? "en"} onValueChange={handleLocaleChange}>
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LOCALE_NAMES).map(([locale, name]) => (
+                      <SelectItem key={locale} value={locale}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-neutral-500">
+                <label className="flex items-center space-x-2">
+                  <Switch
+                    checked={user.notificationPreferences?.weeklyDigest ?? false}
+                    onCheckedChange={(weeklyDigest) => handlePreferenceChange({ weeklyDigest })}
+                  />
+                  <span>Weekly summary email</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <Switch
+                    checked={user.notificationPreferences?.certificationReminders ?? true}
+                    onCheckedChange={(certificationReminders) => handlePreferenceChange({ certificationReminders })}
+                  />
+                  <span>Certification reminders</span>
+                </label>
+              </div>
             </div>
             
-            <div className="mt-4 sm:mt-0">
+            <div className="mt-4 sm:mt-0 flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowImportDialog(true)}
+                className="inline-flex items-center"
+              >
+                <FileUp className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowExportDialog(true)}
+                className="inline-flex items-center"
+              >
+                <FileDown className="mr-2 h-4 w-4" />
+                Export Entries
+              </Button>
               <Button 
                 variant="outline" 
                 onClick={handleExportPdf}
@@ -104,6 +192,18 @@ export function ProfileHeader({ user, verifiedEntries }: ProfileHeaderProps) {
           </div>
         </div>
       </div>
+
+      <ImportEntriesModal
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+      />
+
+      <ExportEntriesModal
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        endpoint="/api/entries/export"
+        description="Download your entries, verified and unverified, with per-method totals."
+      />
     </>
   );
 }
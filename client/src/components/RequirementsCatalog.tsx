@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CertificationRequirement } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import { useMethods } from "@/hooks/use-methods";
+
+const REQUIREMENTS_KEY = ["/api/certification-requirements"];
+
+function RequirementRow({ requirement }: { requirement: CertificationRequirement }) {
+  const [hours, setHours] = useState(requirement.hours);
+  const [includesLowerLevel, setIncludesLowerLevel] = useState(!!requirement.includesLowerLevel);
+  const { toast } = useToast();
+  const { methodLabel } = useMethods();
+
+  const isDirty = hours !== requirement.hours || includesLowerLevel !== !!requirement.includesLowerLevel;
+
+  const handleSave = async () => {
+    try {
+      await apiRequest("PATCH", `/api/admin/certification-requirements/${requirement.id}`, {
+        hours,
+        includesLowerLevel,
+      });
+      queryClient.invalidateQueries({ queryKey: REQUIREMENTS_KEY });
+      toast({ title: "Requirement updated" });
+    } catch (error) {
+      toast({
+        title: "Failed to update requirement",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest("DELETE", `/api/admin/certification-requirements/${requirement.id}`);
+      queryClient.invalidateQueries({ queryKey: REQUIREMENTS_KEY });
+    } catch (error) {
+      toast({
+        title: "Failed to delete requirement",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>{requirement.scheme}</TableCell>
+      <TableCell>{methodLabel(requirement.method)}</TableCell>
+      <TableCell>{requirement.level}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          value={hours}
+          onChange={(e) => setHours(parseFloat(e.target.value) || 0)}
+          className="w-28"
+        />
+      </TableCell>
+      <TableCell>
+        {requirement.level !== "Level I" && (
+          <Checkbox
+            checked={includesLowerLevel}
+            onCheckedChange={(checked) => setIncludesLowerLevel(checked === true)}
+            aria-label="Hours include Level I"
+          />
+        )}
+      </TableCell>
+      <TableCell>
+        <Button variant="ghost" size="icon" onClick={handleSave} disabled={!isDirty || hours <= 0} title="Save">
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete">
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// Admin view of the certification requirements catalog
+export function RequirementsCatalog() {
+  const { activeMethods } = useMethods();
+  const [scheme, setScheme] = useState("");
+  const [method, setMethod] = useState("");
+  const [level, setLevel] = useState("Level I");
+  const [hours, setHours] = useState(0);
+  const { toast } = useToast();
+
+  const { data: requirements = [], isLoading } = useQuery<CertificationRequirement[]>({
+    queryKey: REQUIREMENTS_KEY,
+  });
+
+  const handleAdd = async () => {
+    try {
+      await apiRequest("POST", "/api/admin/certification-requirements", {
+        scheme: scheme.trim(),
+        method,
+        level,
+        hours,
+      });
+      queryClient.invalidateQueries({ queryKey: REQUIREMENTS_KEY });
+      setMethod("");
+      setHours(0);
+      toast({ title: "Requirement added" });
+    } catch (error) {
+      toast({
+        title: "Failed to add requirement",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scheme</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>Includes Level I</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requirements.map((requirement) => (
+              <RequirementRow key={`${requirement.id}-${requirement.hours}`} requirement={requirement} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Input
+          placeholder="Scheme, e.g. SNT-TC-1A"
+          value={scheme}
+          onChange={(e) => setScheme(e.target.value)}
+          className="w-48"
+        />
+        <Select value={method} onValueChange={setMethod}>
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder="Method" />
+          </SelectTrigger>
+          <SelectContent>
+            {activeMethods.map((option) => (
+              <SelectItem key={option.code} value={option.code}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={level} onValueChange={setLevel}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Level I">Level I</SelectItem>
+            <SelectItem value="Level II">Level II</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="0"
+          placeholder="Hours"
+          value={hours || ""}
+          onChange={(e) => setHours(parseFloat(e.target.value) || 0)}
+          className="w-28"
+        />
+        <Button onClick={handleAdd} disabled={!scheme.trim() || !method || hours <= 0}>
+          Add Requirement
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useMethods } from "@/hooks/use-methods";
+import { EMAIL_DELIVERY_KEY } from "@/hooks/use-email-delivery";
+import { VERIFICATION_REMINDERS_KEY } from "@/hooks/use-verification-reminders";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -17,16 +20,17 @@ interface SupervisorVerifyModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  entry: Entry | null;
+  entries: Entry[];
 }
 
-export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: SupervisorVerifyModalProps) {
+export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entries }: SupervisorVerifyModalProps) {
   const [supervisors, setSupervisors] = useState<Supervisor[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedSupervisor, setSelectedSupervisor] = useState<string>("new");
   const [verificationUrl, setVerificationUrl] = useState<string>("");
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
+  const { entryMethodsLabel } = useMethods();
   
   const form = useForm<SupervisorFormValues>({
     resolver: zodResolver(supervisorFormSchema),
@@ -85,7 +89,7 @@ export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: Sup
   };
   
   const handleSubmit = async (values: SupervisorFormValues) => {
-    if (!entry) return;
+    if (entries.length === 0) return;
     
     setIsLoading(true);
     setCopied(false);
@@ -120,8 +124,13 @@ export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: Sup
         }
       }
       
-      const response = await apiRequest("POST", `/api/verify-request/${entry.id}`, requestData);
+      const response = await apiRequest("POST", "/api/verify-request", {
+        ...requestData,
+        entryIds: entries.map((entry) => entry.id),
+      });
       const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: EMAIL_DELIVERY_KEY });
+      queryClient.invalidateQueries({ queryKey: VERIFICATION_REMINDERS_KEY });
       
       // Show success message with direct link option
       toast({
@@ -129,16 +138,9 @@ export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: Sup
         description: "A verification link has been generated. You can also share it directly if needed.",
       });
       
-      // For fallback purposes, generate a link directly if there's a token
-      if (data.entry && data.entry.verificationToken) {
-        // Make sure we always use HTTPS for verification links
-        const baseUrlParts = window.location.origin.split("://");
-        const hostname = baseUrlParts[baseUrlParts.length - 1];
-        const protocol = baseUrlParts[0] === "http" && hostname.includes("replit") ? "https" : baseUrlParts[0];
-        const baseUrl = `${protocol}://${hostname}`;
-        
-        const url = `${baseUrl}/verify/${data.entry.verificationToken}`;
-        setVerificationUrl(url);
+      // For fallback purposes, show the link so it can be shared directly
+      if (data.verificationUrl) {
+        setVerificationUrl(data.verificationUrl);
       } else {
         // Close modal and notify parent component if no direct verification link needed
         onSuccess();
@@ -159,28 +161,40 @@ export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: Sup
   
   // Format entry details for display
   const formatEntryDetails = () => {
-    if (!entry) return null;
+    if (entries.length === 0) return null;
     
-    // Format method for display
-    let displayMethod = entry.method;
-    if (displayMethod === 'UT_THK') {
-      displayMethod = 'UT Thk.';
-    }
+    const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
     
     return (
-      <div className="bg-neutral-100 rounded-md p-4 mb-4">
-        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
-          <dt className="text-neutral-500">Date:</dt>
-          <dd className="text-neutral-900 font-medium">
-            {new Date(entry.date).toLocaleDateString()}
-          </dd>
-          <dt className="text-neutral-500">Location:</dt>
-          <dd className="text-neutral-900 font-medium">{entry.location}</dd>
-          <dt className="text-neutral-500">Method:</dt>
-          <dd className="text-neutral-900 font-medium">{displayMethod}</dd>
-          <dt className="text-neutral-500">Hours:</dt>
-          <dd className="text-neutral-900 font-medium">{entry.hours.toFixed(1)}</dd>
-        </dl>
+      <div className="bg-neutral-100 rounded-md p-4 mb-4 max-h-48 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-neutral-500 text-left">
+              <th className="font-normal pb-1">Date</th>
+              <th className="font-normal pb-1">Location</th>
+              <th className="font-normal pb-1">Method</th>
+              <th className="font-normal pb-1 text-right">Hours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id} className="text-neutral-900 font-medium">
+                <td>{new Date(entry.date).toLocaleDateString()}</td>
+                <td>{entry.location}</td>
+                <td>{entryMethodsLabel(entry)}</td>
+                <td className="text-right">{entry.hours.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {entries.length > 1 && (
+            <tfoot>
+              <tr className="text-neutral-900 font-semibold">
+                <td colSpan={3} className="pt-1">Total</td>
+                <td className="pt-1 text-right">{totalHours.toFixed(1)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
       </div>
     );
   };
@@ -199,7 +213,7 @@ export function SupervisorVerifyModal({ isOpen, onClose, onSuccess, entry }: Sup
         <DialogHeader>
           <DialogTitle>Supervisor Verification</DialogTitle>
           <DialogDescription>
-            Please provide supervisor information to verify the following hours:
+            Please provide supervisor information to verify the following {entries.length === 1 ? "entry" : `${entries.length} entries`}:
           </DialogDescription>
         </DialogHeader>
         
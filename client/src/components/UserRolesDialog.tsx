@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Organization, User } from "@shared/schema";
+import { Roles, roleLabels, type Role } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface UserRolesDialogProps {
+  user: User | null;
+  onClose: () => void;
+  // Only global admins may grant the admin role or move users between organizations
+  isGlobalAdmin: boolean;
+  organizations: Organization[];
+}
+
+const NO_ORGANIZATION = "none";
+
+const dateInputValue = (date: Date | string | null) => (date ? new Date(date).toISOString().split("T")[0] : "");
+
+// Admin dialog for choosing which roles a user holds and, for global admins, their organization
+export function UserRolesDialog({ user, onClose, isGlobalAdmin, organizations }: UserRolesDialogProps) {
+  const [roles, setRoles] = useState<string[]>([]);
+  const [organizationId, setOrganizationId] = useState(NO_ORGANIZATION);
+  const [employmentStartDate, setEmploymentStartDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setRoles(user?.roles ?? []);
+    setOrganizationId(user?.organizationId ? String(user.organizationId) : NO_ORGANIZATION);
+    setEmploymentStartDate(dateInputValue(user?.employmentStartDate ?? null));
+  }, [user]);
+
+  const assignableRoles = Object.values(Roles).filter((role) => isGlobalAdmin || role !== Roles.ADMIN);
+
+  const toggleRole = (role: Role, checked: boolean) => {
+    setRoles((current) => (checked ? [...current, role] : current.filter((value) => value !== role)));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+
+    try {
+      await apiRequest("PATCH", `/api/admin/users/${user.id}/roles`, { roles });
+
+      const selectedOrganizationId = organizationId === NO_ORGANIZATION ? null : parseInt(organizationId);
+      if (isGlobalAdmin && selectedOrganizationId !== user.organizationId) {
+        await apiRequest("PATCH", `/api/admin/users/${user.id}/organization`, {
+          organizationId: selectedOrganizationId,
+        });
+      }
+      if (employmentStartDate !== dateInputValue(user.employmentStartDate)) {
+        await apiRequest("PATCH", `/api/admin/users/${user.id}/employment`, {
+          employmentStartDate: employmentStartDate || null,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "Roles updated" });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to update roles",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Access</DialogTitle>
+          <DialogDescription>
+            Choose what {user?.name || user?.email} can do. A user may hold several roles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {assignableRoles.map((role) => (
+            <div key={role} className="flex items-center space-x-2">
+              <Checkbox
+                id={`role-${role}`}
+                checked={roles.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <Label htmlFor={`role-${role}`}>{roleLabels[role]}</Label>
+            </div>
+          ))}
+        </div>
+
+        {isGlobalAdmin && (
+          <div className="space-y-2">
+            <Label>Organization</Label>
+            <Select value={organizationId} onValueChange={setOrganizationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ORGANIZATION}>No organization</SelectItem>
+                {organizations.map((organization) => (
+                  <SelectItem key={organization.id} value={String(organization.id)}>
+                    {organization.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="employment-start-date">Employment Start Date</Label>
+          <Input
+            id="employment-start-date"
+            type="date"
+            value={employmentStartDate}
+            onChange={(e) => setEmploymentStartDate(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Hours dated before this can't be logged. Leave blank for no limit.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || roles.length === 0}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
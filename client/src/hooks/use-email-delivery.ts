@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { type RequestEmailStatus } from "@/types";
+
+export const EMAIL_DELIVERY_KEY = ["/api/verification-requests/delivery"];
+
+// How often to look again while an email is still waiting to go out
+const PENDING_REFETCH_MS = 30 * 1000;
+
+// Whether the emails for the trainee's verification requests have gone out
+export function useEmailDelivery() {
+  const { data: statuses = [] } = useQuery<RequestEmailStatus[]>({
+    queryKey: EMAIL_DELIVERY_KEY,
+    refetchInterval: (query) =>
+      query.state.data?.some(({ status }) => status === "queued" || status === "sending")
+        ? PENDING_REFETCH_MS
+        : false,
+  });
+
+  return {
+    deliveryFor: (verificationRequestId: number | null) =>
+      statuses.find((status) => status.verificationRequestId === verificationRequestId),
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { NdtMethod } from "@shared/schema";
+import { entryMethodsLabel, methodLabel, type EntryMethods } from "@shared/methods";
+
+export const METHODS_KEY = ["/api/methods"];
+
+// The NDT method catalog: every method for labelling existing records, active ones for picking new ones
+export function useMethods() {
+  const { data: methods = [], isLoading } = useQuery<NdtMethod[]>({
+    queryKey: METHODS_KEY,
+  });
+
+  return {
+    methods,
+    activeMethods: methods.filter((method) => method.active),
+    methodLabel: (code: string) => methodLabel(methods, code),
+    // Covers every method of a split entry, e.g. "MT 4.0 h + UT Thk. 4.0 h"
+    entryMethodsLabel: (entry: EntryMethods) => entryMethodsLabel(methods, entry),
+    isLoading,
+  };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { type VerificationReminderStatus } from "@/types";
+
+export const VERIFICATION_REMINDERS_KEY = ["/api/verification-requests/reminders"];
+
+// Reminders sent to supervisors for the trainee's open verification requests
+export function useVerificationReminders() {
+  const { data: statuses = [] } = useQuery<VerificationReminderStatus[]>({
+    queryKey: VERIFICATION_REMINDERS_KEY,
+  });
+
+  return {
+    remindersFor: (verificationRequestId: number | null) =>
+      statuses.find((status) => status.id === verificationRequestId),
+  };
+}
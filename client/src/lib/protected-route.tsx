@@ -1,17 +1,43 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { hasPermission, Permissions, type Permission } from "@shared/permissions";
 
-export function ProtectedRoute({ children }: { children: React.ReactNode }) {
+// Where a user lands after signing in, based on what their roles let them do
+export function landingPage(user: { roles?: string[] | null }) {
+  if (hasPermission(user, Permissions.MANAGE_USERS)) return "/admin";
+  if (hasPermission(user, Permissions.OWN_LOG)) return "/profile";
+  if (hasPermission(user, Permissions.SIGN_ENTRIES)) return "/supervisor";
+  if (hasPermission(user, Permissions.READ_ENTRIES)) return "/admin";
+  return "/supervisor";
+}
+
+export function ProtectedRoute({
+  children,
+  permission,
+}: {
+  children: React.ReactNode;
+  permission?: Permission;
+}) {
   const [, setLocation] = useLocation();
   const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const isAllowed = !permission || hasPermission(user, permission);
   
   useEffect(() => {
     if (!isLoading && !user) {
       setLocation("/auth");
+    } else if (!isLoading && user && !isAllowed) {
+      setLocation(landingPage(user));
+      toast({
+        title: "Access Denied",
+        description: "You don't have permission to access this page.",
+        variant: "destructive",
+      });
     }
-  }, [user, isLoading, setLocation]);
+  }, [user, isLoading, isAllowed, setLocation, toast]);
   
   if (isLoading) {
     return (
@@ -21,8 +47,8 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     );
   }
   
-  if (!user) {
-    return null; // Will redirect to auth page
+  if (!user || !isAllowed) {
+    return null; // Will redirect to auth page or the user's landing page
   }
   
   return <>{children}</>;
@@ -1,8 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { User, Entry } from "@shared/schema";
+import { downloadFile } from "@/lib/download";
+import { ExportEntriesModal } from "@/components/ExportEntriesModal";
+import { RequirementsCatalog } from "@/components/RequirementsCatalog";
+import { MethodsCatalog } from "@/components/MethodsCatalog";
+import { ExpiringCertifications } from "@/components/ExpiringCertifications";
+import { UserRolesDialog } from "@/components/UserRolesDialog";
+import { OrganizationsPanel } from "@/components/OrganizationsPanel";
+import { JobHoursReport } from "@/components/JobHoursReport";
+import { AppNav } from "@/components/AppNav";
+import { User, Entry, Job, Organization } from "@shared/schema";
+import { hasPermission, Permissions, roleLabels, type Role } from "@shared/permissions";
 import { useAuth } from "@/hooks/use-auth";
+import { useMethods } from "@/hooks/use-methods";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -10,30 +21,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Search, UserCog, ClipboardList } from "lucide-react";
-import { useLocation } from "wouter";
+import { Loader2, Trash2, Search, UserCog, ClipboardList, FileDown, FileSpreadsheet, GraduationCap, CalendarClock, ShieldCheck, Building2, Briefcase, Layers, Mail } from "lucide-react";
 
 export default function AdminPage() {
   const { user, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
-  const [, setLocation] = useLocation();
+  const { entryMethodsLabel } = useMethods();
   const [searchTerm, setSearchTerm] = useState("");
   const [showDeleteUserDialog, setShowDeleteUserDialog] = useState(false);
   const [showDeleteEntryDialog, setShowDeleteEntryDialog] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<Entry | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [roleUser, setRoleUser] = useState<User | null>(null);
 
-  // If not admin, redirect to profile
-  useEffect(() => {
-    if (!authLoading && user && !user.isAdmin) {
-      setLocation("/profile");
-      toast({
-        title: "Access Denied",
-        description: "You don't have permission to access the admin page.",
-        variant: "destructive",
-      });
-    }
-  }, [user, authLoading, setLocation, toast]);
+  // Access to the page itself is checked by ProtectedRoute; these gate the tabs and actions
+  const canReadEntries = hasPermission(user, Permissions.READ_ENTRIES);
+  const canDeleteEntries = hasPermission(user, Permissions.DELETE_ENTRIES);
+  const canManageUsers = hasPermission(user, Permissions.MANAGE_USERS);
+  const canManageRequirements = hasPermission(user, Permissions.MANAGE_REQUIREMENTS);
+  const canReadCertifications = hasPermission(user, Permissions.READ_CERTIFICATIONS);
+  const canManageOrganizations = hasPermission(user, Permissions.MANAGE_ORGANIZATIONS);
 
   // Get all users
   const { 
@@ -43,9 +51,18 @@ export default function AdminPage() {
   } = useQuery<User[]>({
     queryKey: ["/api/admin/users"],
     queryFn: getQueryFn({ on401: "throw" }),
-    enabled: !!user?.isAdmin,
+    enabled: hasPermission(user, Permissions.READ_USERS),
   });
 
+  // Organizations the admin can see, for naming each user's organization
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/admin/organizations"],
+    enabled: hasPermission(user, Permissions.READ_USERS),
+  });
+
+  const organizationName = (organizationId: number | null) =>
+    organizations.find((organization) => organization.id === organizationId)?.name ?? "-";
+
   // Get all entries
   const { 
     data: entries, 
@@ -54,7 +71,13 @@ export default function AdminPage() {
   } = useQuery<Entry[]>({
     queryKey: ["/api/admin/entries"],
     queryFn: getQueryFn({ on401: "throw" }),
-    enabled: !!user?.isAdmin,
+    enabled: canReadEntries,
+  });
+
+  // Jobs the entries are booked against, for hours by job and client
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: ["/api/admin/jobs"],
+    enabled: canReadEntries,
   });
 
   // Delete user mutation
@@ -117,6 +140,18 @@ export default function AdminPage() {
     setShowDeleteUserDialog(true);
   };
 
+  const handleExportUser = async (user: User) => {
+    try {
+      await downloadFile(`/api/admin/users/${user.id}/export.pdf`);
+    } catch (error) {
+      toast({
+        title: "Failed to export PDF",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteEntry = (entry: Entry) => {
     setSelectedEntry(entry);
     setShowDeleteEntryDialog(true);
@@ -145,7 +180,7 @@ export default function AdminPage() {
   const filteredEntries = entries?.filter(
     (entry) =>
       entry.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.method.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      entryMethodsLabel(entry).toLowerCase().includes(searchTerm.toLowerCase()) ||
       entry.verifiedBy?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -157,13 +192,16 @@ export default function AdminPage() {
     );
   }
 
-  if (!user?.isAdmin) {
-    return null; // Will redirect due to the useEffect
-  }
+  const currentUserId = user?.id;
 
   return (
     <div className="container max-w-7xl mx-auto py-8 px-4">
-      <h1 className="text-3xl font-bold mb-6">Admin Dashboard</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Admin Dashboard</h1>
+        <div className="flex items-center space-x-4">
+          <AppNav />
+        </div>
+      </div>
 
       <div className="mb-6">
         <div className="flex items-center space-x-2">
@@ -183,10 +221,42 @@ export default function AdminPage() {
             <UserCog className="h-4 w-4 mr-2" />
             Users
           </TabsTrigger>
-          <TabsTrigger value="entries" className="flex items-center">
-            <ClipboardList className="h-4 w-4 mr-2" />
-            Entries
-          </TabsTrigger>
+          {canReadEntries && (
+            <TabsTrigger value="entries" className="flex items-center">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Entries
+            </TabsTrigger>
+          )}
+          {canReadEntries && (
+            <TabsTrigger value="jobs" className="flex items-center">
+              <Briefcase className="h-4 w-4 mr-2" />
+              Jobs
+            </TabsTrigger>
+          )}
+          {canManageRequirements && (
+            <TabsTrigger value="requirements" className="flex items-center">
+              <GraduationCap className="h-4 w-4 mr-2" />
+              Requirements
+            </TabsTrigger>
+          )}
+          {canManageRequirements && (
+            <TabsTrigger value="methods" className="flex items-center">
+              <Layers className="h-4 w-4 mr-2" />
+              Methods
+            </TabsTrigger>
+          )}
+          {canReadCertifications && (
+            <TabsTrigger value="expiring" className="flex items-center">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Expiring
+            </TabsTrigger>
+          )}
+          {canManageOrganizations && (
+            <TabsTrigger value="organizations" className="flex items-center">
+              <Building2 className="h-4 w-4 mr-2" />
+              Organizations
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="users">
@@ -213,7 +283,8 @@ export default function AdminPage() {
                         <TableHead>Name</TableHead>
                         <TableHead>Email</TableHead>
                         <TableHead>Employee Number</TableHead>
-                        <TableHead>Admin</TableHead>
+                        <TableHead>Organization</TableHead>
+                        <TableHead>Roles</TableHead>
                         <TableHead>Created At</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
@@ -226,7 +297,10 @@ export default function AdminPage() {
                             <TableCell>{user.name || "-"}</TableCell>
                             <TableCell>{user.email}</TableCell>
                             <TableCell>{user.employeeNumber || "-"}</TableCell>
-                            <TableCell>{user.isAdmin ? "Yes" : "No"}</TableCell>
+                            <TableCell>{organizationName(user.organizationId)}</TableCell>
+                            <TableCell>
+                              {user.roles.map((role) => roleLabels[role as Role] ?? role).join(", ")}
+                            </TableCell>
                             <TableCell>
                               {new Date(user.createdAt).toLocaleDateString()}
                             </TableCell>
@@ -234,17 +308,47 @@ export default function AdminPage() {
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={() => handleDeleteUser(user)}
-                                disabled={user.id === user?.id} // Prevent deleting self
+                                onClick={() => handleExportUser(user)}
+                                title="Export verified hours as PDF"
                               >
-                                <Trash2 className="h-4 w-4 text-destructive" />
+                                <FileDown className="h-4 w-4" />
                               </Button>
+                              {canReadEntries && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => window.open(`/api/admin/users/${user.id}/digest`, "_blank")}
+                                  title="Preview weekly digest email"
+                                >
+                                  <Mail className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {canManageUsers && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setRoleUser(user)}
+                                    title="Edit roles and organization"
+                                  >
+                                    <ShieldCheck className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleDeleteUser(user)}
+                                    disabled={user.id === currentUserId} // Prevent deleting self
+                                  >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                  </Button>
+                                </>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))
                       ) : (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-4">
+                          <TableCell colSpan={8} className="text-center py-4">
                             No users found.
                           </TableCell>
                         </TableRow>
@@ -259,9 +363,15 @@ export default function AdminPage() {
 
         <TabsContent value="entries">
           <Card>
-            <CardHeader>
-              <CardTitle>Entry Management</CardTitle>
-              <CardDescription>View and manage all training entries.</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Entry Management</CardTitle>
+                <CardDescription>View and manage all training entries.</CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => setShowExportDialog(true)}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export Entries
+              </Button>
             </CardHeader>
             <CardContent>
               {entriesLoading ? (
@@ -298,20 +408,22 @@ export default function AdminPage() {
                               {new Date(entry.date).toLocaleDateString()}
                             </TableCell>
                             <TableCell>{entry.location}</TableCell>
-                            <TableCell>{entry.method}</TableCell>
+                            <TableCell>{entryMethodsLabel(entry)}</TableCell>
                             <TableCell>{entry.hours}</TableCell>
                             <TableCell>
                               {entry.verified ? "Yes" : "No"}
                             </TableCell>
                             <TableCell>{entry.verifiedBy || "-"}</TableCell>
                             <TableCell>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => handleDeleteEntry(entry)}
-                              >
-                                <Trash2 className="h-4 w-4 text-destructive" />
-                              </Button>
+                              {canDeleteEntries && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteEntry(entry)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))
@@ -329,6 +441,74 @@ export default function AdminPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="jobs">
+          <Card>
+            <CardHeader>
+              <CardTitle>Hours by Job</CardTitle>
+              <CardDescription>Hours logged against each client and job, verified and unverified.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <JobHoursReport entries={entries ?? []} jobs={jobs} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="requirements">
+          <Card>
+            <CardHeader>
+              <CardTitle>Certification Requirements</CardTitle>
+              <CardDescription>
+                Experience hours required per scheme, method and level. Level II hours are added to Level I unless marked as including them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RequirementsCatalog />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="methods">
+          <Card>
+            <CardHeader>
+              <CardTitle>NDT Methods</CardTitle>
+              <CardDescription>
+                Methods offered on entry forms and shown as columns in logs, totals and exports. Inactive methods are hidden from new entries but kept on existing ones.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MethodsCatalog />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="expiring">
+          <Card>
+            <CardHeader>
+              <CardTitle>Expiring in 90 Days</CardTitle>
+              <CardDescription>
+                Certifications and vision exams that lapse within 90 days, or already have. Technicians are emailed reminders automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExpiringCertifications />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="organizations">
+          <Card>
+            <CardHeader>
+              <CardTitle>Organizations</CardTitle>
+              <CardDescription>
+                Companies sharing this deployment. Everyone other than global admins only sees users and entries in their own organization.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationsPanel users={users ?? []} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Delete User Dialog */}
@@ -390,7 +570,7 @@ export default function AdminPage() {
                 <p><strong>User ID:</strong> {selectedEntry.userId}</p>
                 <p><strong>Date:</strong> {new Date(selectedEntry.date).toLocaleDateString()}</p>
                 <p><strong>Location:</strong> {selectedEntry.location}</p>
-                <p><strong>Method:</strong> {selectedEntry.method}</p>
+                <p><strong>Method:</strong> {entryMethodsLabel(selectedEntry)}</p>
                 <p><strong>Hours:</strong> {selectedEntry.hours}</p>
               </div>
             )}
@@ -419,6 +599,20 @@ export default function AdminPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <UserRolesDialog
+        user={roleUser}
+        onClose={() => setRoleUser(null)}
+        isGlobalAdmin={canManageOrganizations}
+        organizations={organizations}
+      />
+
+      <ExportEntriesModal
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        endpoint="/api/admin/entries/export"
+        description="Download entries for all users, verified and unverified, with per-method totals."
+      />
     </div>
   );
 }
\ No newline at end of file
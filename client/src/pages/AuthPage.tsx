@@ -4,21 +4,23 @@ import { AuthForm } from "@/components/AuthForm";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
+import { User } from "@shared/schema";
+import { landingPage } from "@/lib/protected-route";
 
 export default function AuthPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   
   // Check if user is already logged in
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<User | null>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
   
-  // Redirect to profile if already logged in
+  // Redirect to the landing page if already logged in
   useEffect(() => {
     if (user && !isLoading) {
-      setLocation("/profile");
+      setLocation(landingPage(user));
     }
   }, [user, isLoading, setLocation]);
   
@@ -0,0 +1,116 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ShieldCheck } from "lucide-react";
+import { type ExportedDocument } from "@/types";
+import { useMethods } from "@/hooks/use-methods";
+import { entryLines } from "@shared/methods";
+
+// Public, read-only view of an exported log as it was issued
+export default function DocumentPage() {
+  const { documentId } = useParams();
+  const { methodLabel } = useMethods();
+
+  const { data, isLoading, isError } = useQuery<ExportedDocument>({
+    queryKey: [`/api/documents/${documentId}`],
+    enabled: !!documentId,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md p-8 text-center">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p>Loading document...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md text-center">
+          <h1 className="text-2xl font-semibold mb-2">Document Not Found</h1>
+          <p className="text-neutral-500">
+            No OJT log was issued with document ID {documentId}. Check the ID printed on the log, or treat the document as unverified.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { snapshot } = data;
+  // Logs issued before the method catalog name their methods only in the totals
+  const columns =
+    snapshot.methods ?? Object.keys(snapshot.totals).map((code) => ({ code, label: methodLabel(code) }));
+
+  return (
+    <div className="min-h-screen px-4 py-8">
+      <div className="max-w-5xl mx-auto bg-white p-8 rounded-lg shadow-md">
+        <div className="flex items-center mb-2">
+          <ShieldCheck className="h-6 w-6 text-green-600 mr-2" />
+          <h1 className="text-2xl font-semibold">Genuine OJT Log</h1>
+        </div>
+        <p className="text-neutral-500 mb-6">
+          This is the log as issued. Compare it line by line with the printed copy; any difference means the copy was altered.
+        </p>
+
+        <div className="bg-neutral-100 rounded-md p-4 mb-6">
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 text-sm">
+            <dt className="text-neutral-500">Document ID:</dt>
+            <dd className="text-neutral-900 font-medium">{data.documentId}</dd>
+            <dt className="text-neutral-500">Issued:</dt>
+            <dd className="text-neutral-900 font-medium">{new Date(data.issuedAt).toLocaleString()}</dd>
+            <dt className="text-neutral-500">Employee Name:</dt>
+            <dd className="text-neutral-900 font-medium">{snapshot.technician.name}</dd>
+            <dt className="text-neutral-500">Employee #:</dt>
+            <dd className="text-neutral-900 font-medium">{snapshot.technician.employeeNumber}</dd>
+          </dl>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-neutral-200 text-sm">
+            <thead className="bg-neutral-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-neutral-500">Job Date</th>
+                <th className="px-3 py-2 text-left font-medium text-neutral-500">Job Location</th>
+                {columns.map((method) => (
+                  <th key={method.code} className="px-3 py-2 text-left font-medium text-neutral-500">
+                    {method.label}
+                  </th>
+                ))}
+                <th className="px-3 py-2 text-left font-medium text-neutral-500">Supervisor</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {snapshot.entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-2">{new Date(entry.date).toLocaleDateString()}</td>
+                  <td className="px-3 py-2">{entry.location}</td>
+                  {columns.map((method) => (
+                    <td key={method.code} className="px-3 py-2">
+                      {entryLines(entry).find((line) => line.method === method.code)?.hours.toFixed(1) ?? ""}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2">{entry.verifiedBy}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-neutral-100 font-medium">
+              <tr>
+                <td className="px-3 py-2" colSpan={2}>Total Hours ({snapshot.totalHours.toFixed(1)})</td>
+                {columns.map((method) => (
+                  <td key={method.code} className="px-3 py-2">
+                    {(snapshot.totals[method.code] ?? 0).toFixed(1)}
+                  </td>
+                ))}
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
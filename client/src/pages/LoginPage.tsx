@@ -1,64 +1,63 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
 import { MagicLink } from "@/components/MagicLink";
+import { landingPage } from "@/lib/protected-route";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { User } from "@shared/schema";
 
 export default function LoginPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [token, setToken] = useState<string | null>(null);
-  
-  useEffect(() => {
-    // Check for token in URL
-    const params = new URLSearchParams(window.location.search);
-    const urlToken = params.get('token');
-    if (urlToken) {
-      setToken(urlToken);
-    }
-  }, []);
-  
-  // Verify magic link token if present
-  const { isLoading } = useQuery({
-    queryKey: [token ? `/api/auth/verify-magic-link?token=${token}` : null],
-    enabled: !!token,
-    onSuccess: (data) => {
-      toast({
-        title: "Login successful!",
-        description: "Redirecting to your profile...",
-      });
-      
-      // Redirect to profile page
-      setTimeout(() => {
-        setLocation("/profile");
-      }, 1000);
-    },
-    onError: (error) => {
-      toast({
-        title: "Login failed",
-        description: error instanceof Error ? error.message : "Invalid or expired token",
-        variant: "destructive",
-      });
-      
-      // Clear token to show login form
-      setToken(null);
-    },
-  });
-  
+  const [isVerifying, setIsVerifying] = useState(false);
+
   // Check if user is already logged in
-  const { isLoading: isCheckingAuth } = useQuery({
+  const { data: user, isLoading: isCheckingAuth } = useQuery<User | null>({
     queryKey: ["/api/user"],
-    onSuccess: () => {
-      // User is already logged in, redirect to profile
-      setLocation("/profile");
-    },
-    onError: () => {
-      // Not authenticated, do nothing (show login form)
-    },
+    queryFn: getQueryFn({ on401: "returnNull" }),
   });
-  
-  if (isLoading || isCheckingAuth) {
+
+  // Consume the magic link token if present
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    if (!token) return;
+
+    // Drop the token from the address bar so it is not reused or leaked via history
+    window.history.replaceState(null, "", "/login");
+    setIsVerifying(true);
+
+    apiRequest("POST", "/api/auth/verify-magic-link", { token })
+      .then((res) => res.json())
+      .then((loggedInUser: User) => {
+        queryClient.setQueryData(["/api/user"], loggedInUser);
+        toast({
+          title: "Login successful!",
+          description: "Redirecting to your profile...",
+        });
+        setLocation(landingPage(loggedInUser));
+      })
+      .catch((error) => {
+        console.error("Magic link login error:", error);
+        toast({
+          title: "Login failed",
+          description: "This login link is invalid, expired or has already been used.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsVerifying(false));
+  }, [setLocation, toast]);
+
+  // Redirect to profile if already logged in
+  useEffect(() => {
+    if (user && !isVerifying) {
+      setLocation(landingPage(user));
+    }
+  }, [user, isVerifying, setLocation]);
+
+  if (isVerifying || isCheckingAuth) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
         <div className="w-full max-w-md p-8 flex flex-col items-center">
@@ -68,10 +67,17 @@ export default function LoginPage() {
       </div>
     );
   }
-  
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
       <MagicLink />
+      <Button
+        variant="link"
+        className="mt-4"
+        onClick={() => setLocation("/auth")}
+      >
+        Log in with a password instead
+      </Button>
     </div>
   );
 }
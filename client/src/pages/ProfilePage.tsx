@@ -5,13 +5,17 @@ import { useToast } from "@/hooks/use-toast";
 import { ProfileHeader } from "@/components/ProfileHeader";
 import { NewEntryForm } from "@/components/NewEntryForm";
 import { OJTTable } from "@/components/OJTTable";
+import { CertificationProgressPanel } from "@/components/CertificationProgressPanel";
+import { CertificationsPanel } from "@/components/CertificationsPanel";
+import { JobHoursReport } from "@/components/JobHoursReport";
+import { JOBS_KEY } from "@/components/JobPicker";
 import { SupervisorVerifyModal } from "@/components/SupervisorVerifyModal";
 import { EmailSentModal } from "@/components/EmailSentModal";
-import { Entry, User } from "@shared/schema";
+import { Entry, Job, User } from "@shared/schema";
 
 export default function ProfilePage() {
   const { toast } = useToast();
-  const [selectedEntry, setSelectedEntry] = useState<Entry | null>(null);
+  const [selectedEntries, setSelectedEntries] = useState<Entry[]>([]);
   const [isVerifyModalOpen, setIsVerifyModalOpen] = useState(false);
   const [isEmailSentModalOpen, setIsEmailSentModalOpen] = useState(false);
   
@@ -26,12 +30,18 @@ export default function ProfilePage() {
     enabled: !!user
   });
   
+  // Query the jobs catalog for the hours by job report
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: JOBS_KEY,
+    enabled: !!user
+  });
+  
   // Get verified entries for PDF export
   const verifiedEntries = entries.filter((entry: Entry) => entry.verified);
   
-  // Handle verify request
-  const handleVerifyRequest = (entry: Entry) => {
-    setSelectedEntry(entry);
+  // Handle verify request for one or more entries
+  const handleVerifyRequest = (entries: Entry[]) => {
+    setSelectedEntries(entries);
     setIsVerifyModalOpen(true);
   };
   
@@ -64,6 +74,15 @@ export default function ProfilePage() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <NewEntryForm />
         
+        <CertificationProgressPanel user={user} entries={entries} />
+        
+        <CertificationsPanel />
+        
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+          <h2 className="text-lg font-semibold text-neutral-900 mb-4">Hours by Job</h2>
+          <JobHoursReport entries={entries} jobs={jobs} />
+        </div>
+        
         <OJTTable 
           entries={entries} 
           onVerifyRequest={handleVerifyRequest} 
@@ -92,7 +111,7 @@ export default function ProfilePage() {
         isOpen={isVerifyModalOpen}
         onClose={() => setIsVerifyModalOpen(false)}
         onSuccess={handleVerificationSuccess}
-        entry={selectedEntry}
+        entries={selectedEntries}
       />
       
       <EmailSentModal 
@@ -2,15 +2,16 @@ import { useLocation } from "wouter";
 import { useEffect } from "react";
 import { ResetPasswordForm } from "@/components/ResetPasswordForm";
 import { useAuth } from "@/hooks/use-auth";
+import { landingPage } from "@/lib/protected-route";
 
 export default function ResetPasswordPage() {
   const { user, isLoading } = useAuth();
   const [, setLocation] = useLocation();
 
-  // Redirect to profile if already logged in
+  // Redirect to the landing page if already logged in
   useEffect(() => {
     if (!isLoading && user) {
-      setLocation("/profile");
+      setLocation(landingPage(user));
     }
   }, [user, isLoading, setLocation]);
 
@@ -1,46 +1,14 @@
-import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useToast } from "@/hooks/use-toast";
 import { Check } from "lucide-react";
+import { type VerificationResult } from "@/types";
+import { useMethods } from "@/hooks/use-methods";
 
 export default function SuccessPage() {
-  const { toast } = useToast();
-  const [token, setToken] = useState<string | null>(null);
+  const { entryMethodsLabel } = useMethods();
+  // The verification page hands over the verified entries as navigation state,
+  // since the spent verification link can no longer be looked up
+  const result = window.history.state as VerificationResult | null;
   
-  useEffect(() => {
-    // Get token from URL
-    const params = new URLSearchParams(window.location.search);
-    const urlToken = params.get('token');
-    if (urlToken) {
-      setToken(urlToken);
-    }
-  }, []);
-  
-  // Get verification details
-  const { data, isLoading, isError } = useQuery({
-    queryKey: [token ? `/api/verify/${token}` : null],
-    enabled: !!token,
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to load verification details",
-        variant: "destructive",
-      });
-    },
-  });
-  
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
-        <div className="w-full max-w-md p-8 text-center">
-          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-          <p>Loading verification details...</p>
-        </div>
-      </div>
-    );
-  }
-  
-  if (isError || !token || !data) {
+  if (!result || !result.entries) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
         <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md text-center">
@@ -53,16 +21,11 @@ export default function SuccessPage() {
     );
   }
   
-  const { entry, user } = data;
-  
-  // Format method for display
-  let displayMethod = entry.method;
-  if (displayMethod === 'UT_THK') {
-    displayMethod = 'UT Thk.';
-  }
+  const { technician } = result;
+  const verifiedEntries = result.entries.filter((entry) => entry.verified);
   
   // Generate verification ID
-  const verificationId = `VER-${new Date().getTime().toString().slice(-8)}-${token.slice(0, 5).toUpperCase()}`;
+  const verificationId = `VER-${new Date().getTime().toString().slice(-8)}-${verifiedEntries[0]?.id ?? 0}`;
   
   return (
     <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
@@ -77,24 +40,31 @@ export default function SuccessPage() {
         <div className="bg-neutral-100 rounded-md p-4 mb-6 text-left">
           <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
             <dt className="text-neutral-500">Technician:</dt>
-            <dd className="text-neutral-900 font-medium">{user.name}</dd>
+            <dd className="text-neutral-900 font-medium">{technician?.name}</dd>
             <dt className="text-neutral-500">Employee #:</dt>
-            <dd className="text-neutral-900 font-medium">{user.employeeNumber}</dd>
-            <dt className="text-neutral-500">Date:</dt>
+            <dd className="text-neutral-900 font-medium">{technician?.employeeNumber}</dd>
+            <dt className="text-neutral-500">Entries Verified:</dt>
+            <dd className="text-neutral-900 font-medium">{verifiedEntries.length}</dd>
+            <dt className="text-neutral-500">Total Hours:</dt>
             <dd className="text-neutral-900 font-medium">
-              {new Date(entry.date).toLocaleDateString()}
+              {verifiedEntries.reduce((sum, entry) => sum + entry.hours, 0).toFixed(1)}
             </dd>
-            <dt className="text-neutral-500">Location:</dt>
-            <dd className="text-neutral-900 font-medium">{entry.location}</dd>
-            <dt className="text-neutral-500">Method:</dt>
-            <dd className="text-neutral-900 font-medium">{displayMethod}</dd>
-            <dt className="text-neutral-500">Hours:</dt>
-            <dd className="text-neutral-900 font-medium">{entry.hours.toFixed(1)}</dd>
             <dt className="text-neutral-500">Verification ID:</dt>
             <dd className="text-neutral-900 font-medium">{verificationId}</dd>
           </dl>
         </div>
         
+        <ul className="text-sm text-left mb-6 space-y-1">
+          {verifiedEntries.map((entry) => (
+            <li key={entry.id} className="flex justify-between">
+              <span>
+                {new Date(entry.date).toLocaleDateString()} · {entry.location} · {entryMethodsLabel(entry)}
+              </span>
+              <span className="font-medium">{entry.hours.toFixed(1)}</span>
+            </li>
+          ))}
+        </ul>
+        
         <p className="text-sm text-neutral-500">This page can now be closed.</p>
       </div>
     </div>
@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, ClipboardCheck, History, Loader2, XCircle } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { type SupervisorDecision, type SupervisorPendingRequest } from "@/types";
+import { useMethods } from "@/hooks/use-methods";
+import { hasPermission, Permissions } from "@shared/permissions";
+
+const REQUESTS_KEY = ["/api/supervisor/requests"];
+const HISTORY_KEY = ["/api/supervisor/history"];
+
+// Registering doesn't prove the address, so supervisors confirm it with a magic link before
+// linking contacts or signing
+function ConfirmEmailCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [directLink, setDirectLink] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    setIsSending(true);
+
+    try {
+      const res = await apiRequest("POST", "/api/auth/request-magic-link", { email: user?.email });
+      const data = await res.json();
+      setIsSent(true);
+      // Handed back only in development when email delivery fails
+      setDirectLink(data.loginUrl ?? null);
+    } catch (error) {
+      toast({
+        title: "Could not send confirmation link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle>Confirm your email</CardTitle>
+        <CardDescription>
+          Before you can review or sign verification requests, confirm that {user?.email} is yours by
+          logging in with the link we email to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button onClick={handleSend} disabled={isSending}>
+          {isSending ? "Sending..." : isSent ? "Send Again" : "Send Confirmation Link"}
+        </Button>
+        {isSent && !directLink && (
+          <p className="text-sm text-muted-foreground">Check your email and click the link to confirm.</p>
+        )}
+        {directLink && (
+          <Button variant="secondary" onClick={() => (window.location.href = directLink)}>
+            Confirm with Direct Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Offered to signed-in users whose email trainees have listed as a supervisor
+function ClaimSupervisorCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+
+    try {
+      const res = await apiRequest("POST", "/api/supervisor/claim");
+      queryClient.setQueryData(["/api/user"], await res.json());
+      toast({
+        title: "Supervisor account linked",
+        description: "Verification requests sent to your email now appear here.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not link supervisor account",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle>Become a supervisor</CardTitle>
+        <CardDescription>
+          If trainees list {user?.email} as their supervisor, you can review and sign all of their
+          verification requests here instead of through individual email links.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button onClick={handleClaim} disabled={isClaiming}>
+          {isClaiming ? "Linking..." : "Link Supervisor Account"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PendingVerifications() {
+  const { toast } = useToast();
+  const { entryMethodsLabel } = useMethods();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: pending = [], isLoading } = useQuery<SupervisorPendingRequest[]>({
+    queryKey: REQUESTS_KEY,
+    staleTime: 0,
+  });
+
+  const allIds = pending.flatMap(({ entries }) => entries.map((entry) => entry.id));
+  const allSelected = allIds.length > 0 && selectedIds.length === allIds.length;
+
+  const toggleEntry = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id)));
+  };
+
+  const submitDecision = async (decision: "verify" | "reject") => {
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", `/api/supervisor/${decision}`, {
+        entryIds: selectedIds,
+        comment: decision === "reject" ? reason.trim() : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: REQUESTS_KEY });
+      queryClient.invalidateQueries({ queryKey: HISTORY_KEY });
+      toast({
+        title: decision === "verify" ? "Entries verified" : "Entries rejected",
+        description: `${selectedIds.length} ${selectedIds.length === 1 ? "entry" : "entries"} updated. Trainees have been notified.`,
+      });
+      setSelectedIds([]);
+      setReason("");
+      setShowRejectDialog(false);
+    } catch (error) {
+      toast({
+        title: decision === "verify" ? "Failed to verify entries" : "Failed to reject entries",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {selectedIds.length} of {allIds.length} pending {allIds.length === 1 ? "entry" : "entries"} selected
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowRejectDialog(true)}
+            disabled={selectedIds.length === 0 || isSubmitting}
+          >
+            <XCircle className="mr-2 h-4 w-4" />
+            Reject Selected
+          </Button>
+          <Button onClick={() => submitDecision("verify")} disabled={selectedIds.length === 0 || isSubmitting}>
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {isSubmitting ? "Saving..." : "Verify Selected"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked === true ? allIds : [])}
+                  aria-label="Select all entries"
+                />
+              </TableHead>
+              <TableHead>Trainee</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>Requested</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {allIds.length > 0 ? (
+              pending.flatMap(({ request, technician, entries }) =>
+                entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(entry.id)}
+                        onCheckedChange={(checked) => toggleEntry(entry.id, checked === true)}
+                        aria-label="Select entry"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {technician.name || technician.email}
+                      {technician.employeeNumber && (
+                        <span className="block text-xs text-muted-foreground">#{technician.employeeNumber}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.location}</TableCell>
+                    <TableCell>{entryMethodsLabel(entry)}</TableCell>
+                    <TableCell>{entry.hours}</TableCell>
+                    <TableCell>
+                      {request.createdAt ? new Date(request.createdAt).toLocaleDateString() : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-4">
+                  No entries are waiting for your verification.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Selected Entries</DialogTitle>
+            <DialogDescription>
+              The trainees will be emailed this reason so they can correct and resubmit their hours.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason for rejection"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => submitDecision("reject")}
+              disabled={!reason.trim() || isSubmitting}
+            >
+              {isSubmitting ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SigningHistory() {
+  const { entryMethodsLabel } = useMethods();
+  const { data: decisions = [], isLoading } = useQuery<SupervisorDecision[]>({
+    queryKey: HISTORY_KEY,
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Decided</TableHead>
+            <TableHead>Trainee</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Location</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead>Hours</TableHead>
+            <TableHead>Decision</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {decisions.length > 0 ? (
+            decisions.map(({ history, technician }) => (
+              <TableRow key={history.id}>
+                <TableCell>{history.createdAt ? new Date(history.createdAt).toLocaleDateString() : "-"}</TableCell>
+                <TableCell>{technician.name || technician.email}</TableCell>
+                <TableCell>{new Date(history.date).toLocaleDateString()}</TableCell>
+                <TableCell>{history.location}</TableCell>
+                <TableCell>{entryMethodsLabel(history)}</TableCell>
+                <TableCell>{history.hours}</TableCell>
+                <TableCell>
+                  {history.action === "verified" ? (
+                    <span className="text-green-700">Verified</span>
+                  ) : (
+                    <span className="text-red-700" title={history.comment ?? undefined}>
+                      Rejected{history.comment ? `: ${history.comment}` : ""}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-4">
+                You haven't signed any entries yet.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function SupervisorPage() {
+  const { user } = useAuth();
+
+  return (
+    <div className="container max-w-7xl mx-auto py-8 px-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Supervisor Dashboard</h1>
+        <div className="flex items-center space-x-4">
+          <AppNav />
+        </div>
+      </div>
+
+      {!user?.emailVerifiedAt ? (
+        <ConfirmEmailCard />
+      ) : !hasPermission(user, Permissions.SIGN_ENTRIES) ? (
+        <ClaimSupervisorCard />
+      ) : (
+        <Tabs defaultValue="pending">
+          <TabsList>
+            <TabsTrigger value="pending" className="flex items-center">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Pending
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center">
+              <History className="h-4 w-4 mr-2" />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending" className="mt-4">
+            <PendingVerifications />
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-4">
+            <SigningHistory />
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
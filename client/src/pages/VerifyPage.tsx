@@ -1,70 +1,180 @@
 import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
+import { useMethods } from "@/hooks/use-methods";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { verificationFormSchema, type VerificationFormValues } from "@/types";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  verificationFormSchema,
+  type VerificationDetails,
+  type VerificationFormValues,
+  type VerificationLinkStatus,
+  type VerificationResult,
+} from "@/types";
+
+// Error raised when the verification link cannot be used, with the server's reason
+class VerificationLinkError extends Error {
+  constructor(message: string, public reason?: VerificationLinkStatus) {
+    super(message);
+  }
+}
+
+const linkErrorTitles: Record<VerificationLinkStatus, string> = {
+  invalid: "Invalid Link",
+  expired: "Link Expired",
+  revoked: "Link No Longer Valid",
+  used: "Link Already Used",
+};
 
 export default function VerifyPage() {
   const { token } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { entryMethodsLabel } = useMethods();
   const [isVerifying, setIsVerifying] = useState(false);
-  
-  // Log token for debugging
-  console.log("Verification token:", token);
-  
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [showRejectForm, setShowRejectForm] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [isReviewComplete, setIsReviewComplete] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+
   const form = useForm<VerificationFormValues>({
     resolver: zodResolver(verificationFormSchema),
     defaultValues: {
       verifierName: "",
+      code: "",
     },
   });
-  
+
   // Query verification details
-  const { data, isLoading, isError, error } = useQuery({
+  const { data, isLoading, isError, error } = useQuery<VerificationDetails>({
     queryKey: [`/api/verify/${token}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/verify/${token}`, { credentials: "include" });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new VerificationLinkError(body.message || "Verification failed", body.reason);
+      }
+      return body;
+    },
     enabled: !!token,
-    retry: 1,
+    retry: false,
   });
-  
+
+  // Pre-fill the name of the supervisor the request was addressed to
+  useEffect(() => {
+    if (data?.supervisorName && !form.getValues("verifierName")) {
+      form.setValue("verifierName", data.supervisorName);
+    }
+  }, [data, form]);
+
+  // Entries still awaiting a decision
+  const pendingEntries = data?.entries.filter((entry) => !entry.verified && !entry.rejected) ?? [];
+
+  // Select every pending entry by default
+  useEffect(() => {
+    if (data) {
+      setSelectedIds(
+        data.entries.filter((entry) => !entry.verified && !entry.rejected).map((entry) => entry.id)
+      );
+    }
+  }, [data]);
+
+  const toggleEntry = (entryId: number, selected: boolean) => {
+    setSelectedIds((ids) =>
+      selected ? [...ids, entryId] : ids.filter((id) => id !== entryId)
+    );
+  };
+
+  // Email a one-time code to the supervisor address the request was sent to
+  const handleSendCode = async () => {
+    setIsSendingCode(true);
+
+    try {
+      const response = await fetch(`/api/verify/${token}/code`, {
+        method: "POST",
+        credentials: "include"
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.message || "Failed to send code");
+      }
+
+      setCodeSentTo(responseData.message);
+      // Only returned in development when no email provider is configured
+      if (responseData.code) {
+        form.setValue("code", responseData.code);
+      }
+      toast({
+        title: "Code sent",
+        description: responseData.message,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not send code",
+        description: error instanceof Error ? error.message : "An error occurred while sending the code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
   const handleSubmit = async (values: VerificationFormValues) => {
+    if (selectedIds.length === 0) {
+      toast({
+        title: "No entries selected",
+        description: "Select at least one entry to verify.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsVerifying(true);
-    
+
     try {
-      // Extract supervisorName for verification
-      const { verifierName: supervisorName } = values;
-      
-      console.log("Sending verification to API:", token, supervisorName);
-      
+      // Extract supervisorName and the emailed code for verification
+      const { verifierName: supervisorName, code } = values;
+
       const response = await fetch(`/api/verify/${token}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ supervisorName }),
+        body: JSON.stringify({ supervisorName, code, entryIds: selectedIds }),
         credentials: "include"
       });
-      
+
       const responseData = await response.json();
-      console.log("Verification response:", responseData);
-      
+
       if (!response.ok) {
         throw new Error(responseData.message || "Verification failed");
       }
-      
+
       // Show success message and redirect to success page
       toast({
         title: "Verification successful",
         description: "Thank you for verifying these OJT hours.",
       });
-      
-      // Redirect to success page with data
-      setLocation(`/success?token=${token}`);
+
+      // Redirect to success page with the verified entries
+      const result: VerificationResult = {
+        technician: responseData.technician,
+        entries: responseData.entries,
+      };
+      setLocation("/success", { state: result });
     } catch (error) {
       console.error("Verification error:", error);
       toast({
@@ -76,7 +186,91 @@ export default function VerifyPage() {
       setIsVerifying(false);
     }
   };
-  
+
+  const handleReject = async () => {
+    const supervisorName = form.getValues("verifierName");
+    if (!supervisorName) {
+      form.setError("verifierName", { message: "Name is required" });
+      return;
+    }
+
+    const code = form.getValues("code");
+    if (!/^\d{6}$/.test(code)) {
+      form.setError("code", { message: "Enter the 6-digit code from your email" });
+      return;
+    }
+
+    if (!rejectionReason.trim()) {
+      toast({
+        title: "Reason required",
+        description: "Explain what needs to be corrected so the technician can resubmit.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRejecting(true);
+
+    try {
+      const response = await fetch(`/api/verify/${token}/reject`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          supervisorName,
+          code,
+          comment: rejectionReason.trim(),
+          entryIds: selectedIds,
+        }),
+        credentials: "include"
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.message || "Rejection failed");
+      }
+
+      toast({
+        title: "Entries returned",
+        description: "The technician has been notified and can correct and resubmit them.",
+      });
+
+      setShowRejectForm(false);
+      setRejectionReason("");
+
+      // Rejecting everything left spends the link, so there is nothing more to load
+      if (selectedIds.length === pendingEntries.length) {
+        setIsReviewComplete(true);
+      } else {
+        queryClient.invalidateQueries({ queryKey: [`/api/verify/${token}`] });
+      }
+    } catch (error) {
+      console.error("Rejection error:", error);
+      toast({
+        title: "Rejection failed",
+        description: error instanceof Error ? error.message : "An error occurred while rejecting",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRejecting(false);
+    }
+  };
+
+  if (isReviewComplete) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
+        <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md text-center">
+          <h1 className="text-2xl font-semibold mb-2">Review Complete</h1>
+          <p className="text-neutral-500">
+            The entries were returned to the technician for correction. This page can now be closed.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
@@ -87,69 +281,117 @@ export default function VerifyPage() {
       </div>
     );
   }
-  
+
   if (isError || !data) {
+    const reason = error instanceof VerificationLinkError ? error.reason : undefined;
+
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
         <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md text-center">
-          <h1 className="text-2xl font-semibold mb-2">Verification Failed</h1>
+          <h1 className="text-2xl font-semibold mb-2">
+            {reason ? linkErrorTitles[reason] : "Verification Failed"}
+          </h1>
           <p className="text-neutral-500">
             {error instanceof Error ? error.message : "This entry may have already been verified or the link is invalid."}
           </p>
+          {(reason === "expired" || reason === "revoked") && (
+            <p className="text-neutral-500 mt-2">
+              Ask the technician to send a new verification request if these hours still need your signature.
+            </p>
+          )}
         </div>
       </div>
     );
   }
-  
-  // Type guard to ensure data has the expected structure
-  if (!data || !('entry' in data) || !('user' in data)) {
+
+  if (pendingEntries.length === 0) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
         <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md text-center">
-          <h1 className="text-2xl font-semibold mb-2">Invalid Data Format</h1>
+          <h1 className="text-2xl font-semibold mb-2">Already Reviewed</h1>
           <p className="text-neutral-500">
-            The verification data appears to be in an invalid format. Please try again or contact support.
+            All entries in this request have already been verified or returned. This page can now be closed.
           </p>
         </div>
       </div>
     );
   }
-  
-  const { entry, user } = data as { entry: any; user: any };
-  
-  // Format method for display
-  let displayMethod = entry.method;
-  if (displayMethod === 'UT_THK') {
-    displayMethod = 'UT Thk.';
-  }
-  
+
+  const { entries, technician } = data;
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center px-4 py-8">
-      <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md">
+      <div className="w-full max-w-2xl bg-white p-8 rounded-lg shadow-md">
         <div className="mb-8 text-center">
           <h1 className="text-2xl font-semibold mb-2">OJT Hours Verification</h1>
           <p className="text-neutral-500">Please verify the OJT hours for the technician</p>
         </div>
-        
+
         <div className="bg-neutral-100 rounded-md p-4 mb-6">
           <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
             <dt className="text-neutral-500">Technician:</dt>
-            <dd className="text-neutral-900 font-medium">{user.name}</dd>
+            <dd className="text-neutral-900 font-medium">{technician.name}</dd>
             <dt className="text-neutral-500">Employee #:</dt>
-            <dd className="text-neutral-900 font-medium">{user.employeeNumber}</dd>
-            <dt className="text-neutral-500">Date:</dt>
-            <dd className="text-neutral-900 font-medium">
-              {new Date(entry.date).toLocaleDateString()}
-            </dd>
-            <dt className="text-neutral-500">Location:</dt>
-            <dd className="text-neutral-900 font-medium">{entry.location}</dd>
-            <dt className="text-neutral-500">Method:</dt>
-            <dd className="text-neutral-900 font-medium">{displayMethod}</dd>
-            <dt className="text-neutral-500">Hours:</dt>
-            <dd className="text-neutral-900 font-medium">{entry.hours.toFixed(1)}</dd>
+            <dd className="text-neutral-900 font-medium">{technician.employeeNumber}</dd>
+            <dt className="text-neutral-500">Link expires:</dt>
+            <dd className="text-neutral-900 font-medium">{new Date(data.expiresAt).toLocaleDateString()}</dd>
           </dl>
         </div>
-        
+
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-neutral-200 text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="px-2 py-2">
+                  <Checkbox
+                    checked={selectedIds.length === pendingEntries.length}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(checked === true ? pendingEntries.map((entry) => entry.id) : [])
+                    }
+                    aria-label="Select all entries"
+                  />
+                </th>
+                <th className="px-2 py-2 font-medium">Date</th>
+                <th className="px-2 py-2 font-medium">Location</th>
+                <th className="px-2 py-2 font-medium">Method</th>
+                <th className="px-2 py-2 font-medium text-right">Hours</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className={
+                    entry.verified
+                      ? "bg-green-50 text-neutral-500"
+                      : entry.rejected
+                        ? "bg-red-50 text-neutral-500"
+                        : "text-neutral-900"
+                  }
+                >
+                  <td className="px-2 py-2">
+                    {entry.verified ? (
+                      <span className="text-green-700 text-xs">Verified</span>
+                    ) : entry.rejected ? (
+                      <span className="text-red-700 text-xs">Rejected</span>
+                    ) : (
+                      <Checkbox
+                        checked={selectedIds.includes(entry.id)}
+                        onCheckedChange={(checked) => toggleEntry(entry.id, checked === true)}
+                        aria-label="Select entry"
+                      />
+                    )}
+                  </td>
+                  <td className="px-2 py-2">{new Date(entry.date).toLocaleDateString()}</td>
+                  <td className="px-2 py-2">{entry.location}</td>
+                  <td className="px-2 py-2">{entryMethodsLabel(entry)}</td>
+                  <td className="px-2 py-2 text-right">{entry.hours.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
             <FormField
@@ -159,24 +401,103 @@ export default function VerifyPage() {
                 <FormItem>
                   <FormLabel>Your Name (Supervisor)</FormLabel>
                   <FormControl>
-                    <Input 
-                      placeholder="Enter your full name" 
-                      {...field} 
+                    <Input
+                      placeholder="Enter your full name"
+                      {...field}
                     />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
-            
-            <Button 
-              type="submit" 
-              className="w-full"
-              disabled={isVerifying}
-              variant="secondary"
-            >
-              {isVerifying ? "Verifying..." : "Verify Hours"}
-            </Button>
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Verification Code</FormLabel>
+                  <div className="flex space-x-2">
+                    <FormControl>
+                      <Input
+                        placeholder="6-digit code"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        {...field}
+                      />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleSendCode}
+                      disabled={isSendingCode}
+                    >
+                      {isSendingCode ? "Sending..." : codeSentTo ? "Resend Code" : "Email Me a Code"}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    {codeSentTo ??
+                      `To confirm your identity, we'll email a code to ${data.supervisorEmail ?? "the address this request was sent to"}.`}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {showRejectForm ? (
+              <div className="space-y-3 border border-red-200 rounded-md p-4">
+                <Label htmlFor="rejection-reason">Reason for rejecting the selected entries</Label>
+                <Textarea
+                  id="rejection-reason"
+                  placeholder="e.g. Hours on 3/14 should be 6.0, not 8.0"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowRejectForm(false)}
+                    disabled={isRejecting}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={handleReject}
+                    disabled={isRejecting || selectedIds.length === 0}
+                  >
+                    {isRejecting ? "Rejecting..." : "Reject Selected"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isVerifying || selectedIds.length === 0}
+                  variant="secondary"
+                >
+                  {isVerifying
+                    ? "Verifying..."
+                    : selectedIds.length === pendingEntries.length
+                      ? "Verify All Hours"
+                      : `Verify ${selectedIds.length} Selected ${selectedIds.length === 1 ? "Entry" : "Entries"}`}
+                </Button>
+                <Button
+                  type="button"
+                  className="w-full"
+                  variant="outline"
+                  onClick={() => setShowRejectForm(true)}
+                  disabled={isVerifying || selectedIds.length === 0}
+                >
+                  Reject Selected...
+                </Button>
+              </div>
+            )}
           </form>
         </Form>
       </div>
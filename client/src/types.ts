@@ -1,26 +1,50 @@
 import { z } from "zod";
-import { NDTMethods } from "@shared/schema";
+import {
+  type Certification,
+  type EmailStatus,
+  type Entry,
+  type EntryFlag,
+  type EntryHistory,
+  type ExportSnapshot,
+  type User,
+  type VerificationRequest,
+} from "@shared/schema";
 
 // Entry form validation schema
 export const entryFormSchema = z.object({
   date: z.date(),
   location: z.string().min(1, "Location is required"),
-  method: z.enum([
-    NDTMethods.ET, 
-    NDTMethods.RFT, 
-    NDTMethods.MT, 
-    NDTMethods.PT, 
-    NDTMethods.RT, 
-    NDTMethods.UT_THK,
-    NDTMethods.UTSW,
-    NDTMethods.PMI,
-    NDTMethods.LSI
-  ]),
+  method: z.string().min(1, "Method is required"),
   hours: z.number().min(0.1, "Hours must be greater than 0"),
 });
 
 export type EntryFormValues = z.infer<typeof entryFormSchema>;
 
+// Entry rule result from the server: errors stop an entry saving, warnings are saved on it as flags
+export interface EntryIssue extends EntryFlag {
+  severity: "error" | "warning";
+}
+
+// Issues for each entry sent to /api/entries/check, in the same order
+export interface EntryCheckResult {
+  issues: EntryIssue[][];
+}
+
+// Delivery of the latest email for one of the trainee's verification requests
+export interface RequestEmailStatus {
+  emailId: number;
+  verificationRequestId: number;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
+// How far reminders have gone for one of the trainee's open verification requests
+export type VerificationReminderStatus = Pick<
+  VerificationRequest,
+  "id" | "createdAt" | "reminderCount" | "lastRemindedAt" | "escalatedAt"
+>;
+
 // Supervisor form validation schema
 export const supervisorFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -32,6 +56,20 @@ export const supervisorFormSchema = z.object({
 
 export type SupervisorFormValues = z.infer<typeof supervisorFormSchema>;
 
+// Certification record form validation schema; dates are yyyy-mm-dd strings from date inputs
+export const certificationFormSchema = z.object({
+  method: z.string().min(1, "Method is required"),
+  level: z.enum(["Level I", "Level II", "Level III"]),
+  scheme: z.string().min(1, "Scheme is required"),
+  certificateNumber: z.string().min(1, "Certificate number is required"),
+  issuedBy: z.string().min(1, "Issuing Level III is required"),
+  issuedAt: z.string().min(1, "Issue date is required"),
+  expiresAt: z.string().min(1, "Expiry date is required"),
+  visionExamAt: z.string().optional(),
+});
+
+export type CertificationFormValues = z.infer<typeof certificationFormSchema>;
+
 // Authentication form validation schemas
 export const loginFormSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -47,22 +85,88 @@ export const registerFormSchema = loginFormSchema.extend({
 
 export type RegisterFormValues = z.infer<typeof registerFormSchema>;
 
+export const magicLinkFormSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export type MagicLinkFormValues = z.infer<typeof magicLinkFormSchema>;
+
 // Verification form validation schema
 export const verificationFormSchema = z.object({
   verifierName: z.string().min(1, "Name is required"),
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your email"),
 });
 
 export type VerificationFormValues = z.infer<typeof verificationFormSchema>;
 
-// Method hours with totals interface
-export interface MethodHours {
-  ET: number;
-  RFT: number;
-  MT: number;
-  PT: number;
-  RT: number;
-  UT_THK: number;
-  UTSW: number;
-  PMI: number;
-  LSI: number;
+// Entry details shown to a verifier
+export type VerifierEntry = Pick<
+  Entry,
+  "id" | "date" | "location" | "method" | "hours" | "lines" | "verified" | "rejected"
+>;
+
+// Technician details shown to a verifier
+export type VerifierTechnician = Pick<User, "name" | "employeeNumber">;
+
+// Verification request details returned for a verification link
+export interface VerificationDetails {
+  technician: VerifierTechnician;
+  supervisorName?: string;
+  // Masked address the one-time code is sent to
+  supervisorEmail?: string;
+  entries: VerifierEntry[];
+  expiresAt: string;
+}
+
+// Why a verification link can no longer be used
+export type VerificationLinkStatus = "invalid" | "expired" | "revoked" | "used";
+
+// Result handed from the verification page to the success page
+export interface VerificationResult {
+  technician: VerifierTechnician | null;
+  entries: VerifierEntry[];
+}
+
+// Exported log as issued by the server, printed on the PDF and shown on the public document page
+export interface ExportedDocument {
+  documentId: string;
+  verificationUrl: string;
+  issuedAt: string;
+  snapshot: ExportSnapshot;
+}
+
+// One row of a CSV import as checked by the server
+export interface ImportPreviewRow {
+  line: number;
+  values: {
+    date: string;
+    location: string;
+    method: string;
+    hours: string;
+    verifier: string;
+  };
+  date: string | null; // YYYY-MM-DD as the server read it
+  errors: string[];
+}
+
+// Certification falling due, with its holder, for the admin view
+export interface ExpiringCertification {
+  certification: Certification;
+  user: Pick<User, "id" | "name" | "email" | "employeeNumber">;
+}
+
+// Trainee details shown on the supervisor dashboard
+export type SupervisorTechnician = Pick<User, "id" | "name" | "email" | "employeeNumber">;
+
+// Open verification request addressed to the signed-in supervisor, with its undecided entries
+export interface SupervisorPendingRequest {
+  request: VerificationRequest;
+  technician: SupervisorTechnician;
+  entries: Entry[];
+}
+
+// Verification decision the signed-in supervisor made
+export interface SupervisorDecision {
+  history: EntryHistory;
+  technician: SupervisorTechnician;
 }
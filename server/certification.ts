@@ -0,0 +1,49 @@
+import { type InsertCertificationRequirement, type InsertNdtMethod } from "@shared/schema";
+
+// Method catalog installed when none exists; admins add, relabel, reorder and retire methods from there
+export const DEFAULT_NDT_METHODS: InsertNdtMethod[] = [
+  { code: "ET", label: "ET" },
+  { code: "RFT", label: "RFT" },
+  { code: "MT", label: "MT" },
+  { code: "PT", label: "PT" },
+  { code: "RT", label: "RT" },
+  { code: "UT_THK", label: "UT Thk." },
+  { code: "UTSW", label: "UTSW" },
+  { code: "PMI", label: "PMI" },
+  { code: "LSI", label: "LSI" },
+].map((method, i) => ({ ...method, sortOrder: (i + 1) * 10, active: true }));
+
+// ISO 9712 states experience in months; converted at a nominal 22 working days of 8 hours
+const ISO_MONTH_HOURS = 176;
+
+function scheme(
+  name: string,
+  hours: Record<string, [number, number]>,
+): InsertCertificationRequirement[] {
+  return Object.entries(hours).flatMap(([method, [levelOne, levelTwo]]) => [
+    { scheme: name, method, level: "Level I", hours: levelOne, includesLowerLevel: false },
+    { scheme: name, method, level: "Level II", hours: levelTwo, includesLowerLevel: false },
+  ]);
+}
+
+// Catalog installed when none exists. Both schemes state Level II experience as additional
+// to Level I, so direct entry to Level II needs the sum. Admins adjust these to their written practice.
+export const DEFAULT_CERTIFICATION_REQUIREMENTS: InsertCertificationRequirement[] = [
+  ...scheme("SNT-TC-1A", {
+    ET: [210, 630],
+    RFT: [210, 630],
+    MT: [70, 280],
+    PT: [70, 140],
+    RT: [210, 630],
+    UT_THK: [70, 140],
+    UTSW: [210, 630],
+  }),
+  ...scheme("ISO 9712", {
+    ET: [3 * ISO_MONTH_HOURS, 9 * ISO_MONTH_HOURS],
+    RFT: [3 * ISO_MONTH_HOURS, 9 * ISO_MONTH_HOURS],
+    MT: [1 * ISO_MONTH_HOURS, 3 * ISO_MONTH_HOURS],
+    PT: [1 * ISO_MONTH_HOURS, 3 * ISO_MONTH_HOURS],
+    RT: [3 * ISO_MONTH_HOURS, 9 * ISO_MONTH_HOURS],
+    UTSW: [3 * ISO_MONTH_HOURS, 9 * ISO_MONTH_HOURS],
+  }),
+];
@@ -0,0 +1,141 @@
+import { type User } from "@shared/schema";
+import { Permissions, hasPermission } from "@shared/permissions";
+import { computeCertificationProgress } from "@shared/certification";
+import { hoursByMethod, methodLabel, sortMethods } from "@shared/methods";
+import { storage } from "./storage";
+import { getBaseUrl } from "./email";
+import { listUnsubscribeHeaders, sendEmail } from "./mail";
+import { renderEmail, type DigestData, type RenderedEmail } from "./templates";
+import { unsubscribeUrl } from "./unsubscribe";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DIGEST_INTERVAL_DAYS = 7;
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// The week's summary for a user: the trainee section for anyone keeping a log, the supervisor section
+// for anyone who signs entries
+export async function buildDigest(user: User, now: Date = new Date()): Promise<DigestData> {
+  const weekStart = new Date(now.getTime() - DIGEST_INTERVAL_DAYS * DAY_MS);
+  const methods = await storage.getMethods();
+  const label = (code: string) => methodLabel(methods, code);
+
+  let trainee: DigestData["trainee"] = null;
+  if (hasPermission(user, Permissions.OWN_LOG)) {
+    const entries = await storage.getEntries(user.id);
+    const thisWeek = entries.filter((entry) => !entry.rejected && new Date(entry.date) >= weekStart);
+    const pending = entries.filter(
+      (entry) => entry.verificationRequestId && !entry.verified && !entry.rejected,
+    );
+    const weekHours = hoursByMethod(thisWeek);
+
+    const requirements = user.certificationScheme
+      ? await storage.getCertificationRequirements(user.certificationScheme)
+      : [];
+    const progress = computeCertificationProgress(
+      entries,
+      requirements,
+      sortMethods(methods).map((method) => method.code),
+      now,
+    ).flatMap((method) => {
+      const next = method.levels.find((level) => !level.achieved);
+      const started = method.verifiedHours + method.pendingHours > 0;
+      return next && started
+        ? [
+            {
+              method: label(method.method),
+              level: next.level,
+              verifiedHours: method.verifiedHours,
+              requiredHours: next.requiredHours,
+              percent: next.percent,
+            },
+          ]
+        : [];
+    });
+
+    trainee = {
+      hours: sortMethods(methods)
+        .filter((method) => weekHours[method.code])
+        .map((method) => ({ method: method.label, hours: weekHours[method.code] })),
+      pendingEntries: pending.length,
+      pendingHours: pending.reduce((sum, entry) => sum + entry.hours, 0),
+      rejected: entries
+        .filter((entry) => entry.rejected)
+        .map((entry) => ({
+          date: entry.date,
+          location: entry.location,
+          rejectedBy: entry.rejectedBy ?? "",
+          reason: entry.rejectionReason ?? "",
+        })),
+      progress,
+    };
+  }
+
+  let supervisor: DigestData["supervisor"] = null;
+  if (hasPermission(user, Permissions.SIGN_ENTRIES)) {
+    const requests = await storage.getSupervisorPendingRequests(user.id);
+    supervisor = {
+      requests: requests.map(({ request, technician, entries }) => ({
+        technician: technician.name || technician.email,
+        sentAt: request.createdAt ?? now,
+        entries: entries.length,
+        hours: entries.reduce((sum, entry) => sum + entry.hours, 0),
+      })),
+    };
+  }
+
+  return {
+    name: user.name,
+    weekStart,
+    trainee,
+    supervisor,
+    profileUrl: `${getBaseUrl()}/profile`,
+    dashboardUrl: `${getBaseUrl()}/supervisor`,
+    unsubscribeUrl: unsubscribeUrl(user.id, "weeklyDigest"),
+  };
+}
+
+// Nothing happened worth an email
+const isQuiet = ({ trainee, supervisor }: DigestData) =>
+  (!trainee ||
+    (trainee.hours.length === 0 && trainee.pendingEntries === 0 && trainee.rejected.length === 0)) &&
+  (!supervisor || supervisor.requests.length === 0);
+
+export async function renderDigest(user: User, now: Date = new Date()): Promise<RenderedEmail> {
+  return renderEmail("weekly-digest", user.locale, await buildDigest(user, now));
+}
+
+// Send the digest to everyone who opted in and hasn't had one this week. A quiet week still counts as
+// sent, so the digest keeps to a weekly rhythm.
+export async function sendWeeklyDigests(now: Date = new Date()): Promise<number> {
+  const recipients = await storage.getDigestRecipients(
+    new Date(now.getTime() - DIGEST_INTERVAL_DAYS * DAY_MS),
+  );
+  let sent = 0;
+
+  for (const user of recipients) {
+    const digest = await buildDigest(user, now);
+    if (!isQuiet(digest)) {
+      const { subject, html, text } = renderEmail("weekly-digest", user.locale, digest);
+      // A queued digest is retried by the email queue, so only one that couldn't be queued waits for the next run
+      const headers = listUnsubscribeHeaders(digest.unsubscribeUrl);
+      if ((await sendEmail(user.email, subject, html, { text, headers })) === "failed") continue;
+      sent++;
+    }
+    await storage.recordDigestSent(user.id, now);
+  }
+
+  return sent;
+}
+
+// Check for digests that are due now and every few hours after
+export function scheduleWeeklyDigests() {
+  const run = () =>
+    sendWeeklyDigests()
+      .then((sent) => {
+        if (sent > 0) console.log(`Sent ${sent} weekly digest(s)`);
+      })
+      .catch((error) => console.error("Error sending weekly digests:", error));
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
@@ -1,16 +1,8 @@
-import { Entry, User, Supervisor } from '@shared/schema';
-import sgMail from '@sendgrid/mail';
-
-// Configure SendGrid
-if (!process.env.SENDGRID_API_KEY) {
-  console.warn('SENDGRID_API_KEY not found, emails will not be sent');
-} else {
-  sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-  console.log('SendGrid API key configured');
-}
-
-// Default sender email using verified domain
-const DEFAULT_FROM_EMAIL = 'noreply@trackerloger.online';
+import { Certification, Entry, Locale, User, Supervisor, VerificationRequest } from '@shared/schema';
+import { entryMethodsLabel, methodLabel } from '@shared/methods';
+import { storage } from './storage';
+import { listUnsubscribeHeaders, sendEmail, type SendResult } from './mail';
+import { renderEmail, type EmailEntry } from './templates';
 
 // Get base URL for links
 export const getBaseUrl = () => {
@@ -23,126 +15,169 @@ export const getBaseUrl = () => {
   return `${protocol}://${domain}`;
 };
 
-// Send email with SendGrid
-export async function sendEmail(to: string, subject: string, html: string): Promise<boolean> {
-  try {
-    if (!process.env.SENDGRID_API_KEY) {
-      console.error('SENDGRID_API_KEY not set');
-      return false;
-    }
-
-    await sgMail.send({
-      to,
-      from: {
-        email: DEFAULT_FROM_EMAIL,
-        name: 'OJT Hours Tracker'
-      },
-      subject,
-      html,
-      text: html.replace(/<[^>]*>/g, '') // Simple HTML to text conversion
-    });
-
-    console.log('Email sent successfully via SendGrid');
-    return true;
-  } catch (error: any) {
-    console.error('Error sending email via SendGrid:', error.response?.body || error.message);
-    return false;
-  }
+// Supervisors are contacts rather than accounts, so they get the language of an account with their address if there is one
+export async function recipientLocale(email: string): Promise<Locale> {
+  return (await storage.getUserByEmail(email))?.locale ?? 'en';
+}
+
+// Entry details for a template, with the methods labelled from the catalog
+async function emailEntries(entries: Entry[]): Promise<EmailEntry[]> {
+  const methods = await storage.getMethods();
+  return entries.map((entry) => ({
+    date: entry.date,
+    location: entry.location,
+    methods: entryMethodsLabel(methods, entry),
+    hours: entry.hours,
+  }));
 }
 
-// Send verification request email
+// Send verification request email covering one or more entries
 export async function sendVerificationRequest(
   supervisor: Supervisor, 
   user: User,
-  entry: Entry
-): Promise<boolean> {
+  entries: Entry[],
+  verificationToken: string,
+  expiresAt: Date,
+  verificationRequestId?: number
+): Promise<SendResult> {
   // Ensure we always use HTTPS for verification links
   const domain = process.env.REPLIT_DOMAINS ? 
     process.env.REPLIT_DOMAINS.split(',')[0] : 
     'localhost:5000';
   
   // Always force HTTPS for verification links
-  const verificationUrl = `https://${domain}/verify/${entry.verificationToken}`;
-  
-  // Display verification URL in logs for testing/debugging
-  console.log("\n-------------------------------------------------");
-  console.log("VERIFICATION LINK (For testing):");
-  console.log(verificationUrl);
-  console.log("-------------------------------------------------\n");
+  const verificationUrl = `https://${domain}/verify/${verificationToken}`;
   
-  // Format method for display
-  let displayMethod = entry.method;
-  if (displayMethod === 'UT_THK') {
-    displayMethod = 'UT Thk.';
+  // The link lets whoever holds it sign, so it is only logged outside production, for testing
+  if (process.env.NODE_ENV !== 'production') {
+    console.log("\n-------------------------------------------------");
+    console.log("VERIFICATION LINK (For testing):");
+    console.log(verificationUrl);
+    console.log("-------------------------------------------------\n");
   }
   
-  const html = `
-    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>OJT Hours Verification Request</h2>
-      <p>${user.name || user.email} ${user.employeeNumber ? `(Employee #: ${user.employeeNumber})` : ''} has requested your verification for the following OJT hours:</p>
-      
-      <div style="background-color: #f4f4f4; padding: 15px; border-radius: 4px; margin: 20px 0;">
-        <p><strong>Date:</strong> ${new Date(entry.date).toLocaleDateString()}</p>
-        <p><strong>Location:</strong> ${entry.location}</p>
-        <p><strong>Method:</strong> ${displayMethod}</p>
-        <p><strong>Hours:</strong> ${entry.hours}</p>
-      </div>
-      
-      <p>Please click the button below to verify these hours:</p>
-      <p>
-        <a 
-          href="${verificationUrl}" 
-          style="display: inline-block; padding: 10px 20px; background-color: #42be65; color: white; text-decoration: none; border-radius: 4px;"
-        >
-          Verify Hours
-        </a>
-      </p>
-      <p>Or copy and paste this URL into your browser:</p>
-      <p>${verificationUrl}</p>
-    </div>
-  `;
+  const { subject, html, text } = renderEmail('verification-request', await recipientLocale(supervisor.email), {
+    technician: user.name || user.email,
+    employeeNumber: user.employeeNumber,
+    entries: await emailEntries(entries),
+    verificationUrl,
+    dashboardUrl: `https://${domain}/supervisor`,
+    expiresAt,
+  });
   
-  const emailSent = await sendEmail(
-    supervisor.email,
-    `Verification Request for OJT Hours from ${user.name || user.email}`,
-    html
-  );
-  
-  return emailSent;
+  return await sendEmail(supervisor.email, subject, html, { text, verificationRequestId });
+}
+
+// Send the one-time code a supervisor types in to confirm they are the one signing.
+// The code is never logged; without an email provider in development the route hands it back instead.
+export async function sendVerificationCode(
+  supervisor: Supervisor,
+  user: User,
+  code: string,
+  expiresAt: Date
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('verification-code', await recipientLocale(supervisor.email), {
+    technician: user.name || user.email,
+    code,
+    expiresAt,
+  });
+
+  return await sendEmail(supervisor.email, subject, html, { text });
 }
 
 // Send verification confirmation email to user
 export async function sendVerificationConfirmation(
   user: User,
-  entry: Entry,
+  entries: Entry[],
   supervisorName: string
-): Promise<boolean> {
-  // Format method for display
-  let displayMethod = entry.method;
-  if (displayMethod === 'UT_THK') {
-    displayMethod = 'UT Thk.';
-  }
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('verification-confirmation', user.locale, {
+    supervisor: supervisorName,
+    entries: await emailEntries(entries),
+  });
   
-  const html = `
-    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>OJT Hours Verified</h2>
-      <p>Good news! Your OJT hours have been verified by ${supervisorName}:</p>
-      
-      <div style="background-color: #f4f4f4; padding: 15px; border-radius: 4px; margin: 20px 0;">
-        <p><strong>Date:</strong> ${new Date(entry.date).toLocaleDateString()}</p>
-        <p><strong>Location:</strong> ${entry.location}</p>
-        <p><strong>Method:</strong> ${displayMethod}</p>
-        <p><strong>Hours:</strong> ${entry.hours}</p>
-        <p><strong>Verified By:</strong> ${supervisorName}</p>
-      </div>
-      
-      <p>These hours have been added to your verified OJT log. You can view and export your log from your profile page.</p>
-    </div>
-  `;
+  return await sendEmail(user.email, subject, html, { text });
+}
+
+
+// Send rejection notice to user so they can correct and resubmit the entries
+export async function sendVerificationRejection(
+  user: User,
+  entries: Entry[],
+  supervisorName: string,
+  reason: string
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('verification-rejection', user.locale, {
+    supervisor: supervisorName,
+    entries: await emailEntries(entries),
+    reason,
+    profileUrl: `${getBaseUrl()}/profile`,
+  });
   
-  return await sendEmail(
-    user.email,
-    'OJT Hours Verified',
-    html
-  );
-}
\ No newline at end of file
+  return await sendEmail(user.email, subject, html, { text });
+}
+
+
+// Remind a supervisor of a verification request they haven't answered; the emailed link can't be sent again,
+// so this points back to it and to the supervisor dashboard
+export async function sendVerificationReminder(
+  supervisor: Supervisor,
+  user: User,
+  entries: Entry[],
+  request: VerificationRequest
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('verification-reminder', await recipientLocale(supervisor.email), {
+    technician: user.name || user.email,
+    entries: await emailEntries(entries),
+    sentAt: request.createdAt ?? new Date(),
+    expiresAt: request.expiresAt,
+    dashboardUrl: `${getBaseUrl()}/supervisor`,
+  });
+
+  return await sendEmail(supervisor.email, subject, html, { text });
+}
+
+// Tell a trainee their supervisor hasn't answered a verification request despite the reminders
+export async function sendVerificationEscalation(
+  user: User,
+  supervisor: Supervisor,
+  entries: Entry[],
+  request: VerificationRequest
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('verification-escalation', user.locale, {
+    supervisor: supervisor.name,
+    entries: await emailEntries(entries),
+    sentAt: request.createdAt ?? new Date(),
+    reminders: request.reminderCount,
+    profileUrl: `${getBaseUrl()}/profile`,
+  });
+
+  return await sendEmail(user.email, subject, html, { text });
+}
+
+
+// Remind a technician that a certification or their vision exam is about to lapse
+export async function sendCertificationReminder(
+  user: Pick<User, 'name' | 'email' | 'locale'>,
+  certification: Certification,
+  kind: 'expiry' | 'vision',
+  dueDate: Date,
+  daysLeft: number,
+  unsubscribeUrl: string
+): Promise<SendResult> {
+  const { subject, html, text } = renderEmail('certification-reminder', user.locale, {
+    name: user.name,
+    kind,
+    method: methodLabel(await storage.getMethods(), certification.method),
+    level: certification.level,
+    scheme: certification.scheme,
+    certificateNumber: certification.certificateNumber,
+    issuedBy: certification.issuedBy,
+    dueDate,
+    daysLeft,
+    profileUrl: `${getBaseUrl()}/profile`,
+    unsubscribeUrl,
+  });
+
+  return await sendEmail(user.email, subject, html, { text, headers: listUnsubscribeHeaders(unsubscribeUrl) });
+}
@@ -0,0 +1,121 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import {
+  entryMethodCodes,
+  entryMethodsLabel,
+  hoursByMethod,
+  methodColumns,
+  type MethodColumn,
+} from "@shared/methods";
+import { type NdtMethod } from "@shared/schema";
+import { type EntryExportRow } from "./storage";
+
+// Query string accepted by the CSV/XLSX export routes, e.g. ?format=xlsx&from=2025-01-01&methods=ET,MT
+export const entryExportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  from: z.coerce.date().optional(),
+  // Inclusive of the whole "to" day
+  to: z.coerce
+    .date()
+    .optional()
+    .transform((date) => (date ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : undefined)),
+  methods: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : undefined))
+    .pipe(z.array(z.string().trim().toUpperCase()).optional()),
+});
+
+export type EntryExportQuery = z.infer<typeof entryExportQuerySchema>;
+
+const COLUMNS = [
+  "Technician",
+  "Employee Number",
+  "Email",
+  "Job Date",
+  "Job Location",
+  "Method",
+  "Hours",
+  "Status",
+  "Verified By",
+  "Verified At",
+];
+
+function status(row: EntryExportRow): string {
+  if (row.entry.verified) return "Verified";
+  if (row.entry.rejected) return "Rejected";
+  return "Pending";
+}
+
+function toRecord(row: EntryExportRow, methods: MethodColumn[]): (string | number)[] {
+  const { entry, user } = row;
+  return [
+    user.name || "",
+    user.employeeNumber || "",
+    user.email,
+    new Date(entry.date).toISOString().split("T")[0],
+    entry.location,
+    entryMethodsLabel(methods, entry),
+    entry.hours,
+    status(row),
+    entry.verifiedBy || "",
+    entry.verifiedAt ? new Date(entry.verifiedAt).toISOString() : "",
+  ];
+}
+
+// Per-method totals, split into all and verified hours; split entries count under each of their methods
+function methodTotals(rows: EntryExportRow[], columns: MethodColumn[]): (string | number)[][] {
+  const entries = rows.map((row) => row.entry);
+  const all = hoursByMethod(entries);
+  const verified = hoursByMethod(entries.filter((entry) => entry.verified));
+  const totals = columns.map((method) => [method.label, all[method.code] ?? 0, verified[method.code] ?? 0]);
+  const sum = (list: typeof entries) => list.reduce((total, entry) => total + entry.hours, 0);
+
+  return [
+    ["Method", "Total Hours", "Verified Hours"],
+    ...totals,
+    ["All", sum(entries), sum(entries.filter((entry) => entry.verified))],
+  ];
+}
+
+function csvField(value: string | number): string {
+  // Neutralise values a spreadsheet would otherwise run as a formula
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Totals cover the active methods plus any others the exported entries use
+function exportColumns(rows: EntryExportRow[], methods: NdtMethod[]): MethodColumn[] {
+  return methodColumns(methods, entryMethodCodes(rows.map((row) => row.entry)));
+}
+
+export function renderEntriesCsv(rows: EntryExportRow[], methods: NdtMethod[]): string {
+  const columns = exportColumns(rows, methods);
+  const lines = [
+    COLUMNS,
+    ...rows.map((row) => toRecord(row, columns)),
+    [],
+    ...methodTotals(rows, columns),
+  ];
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function renderEntriesXlsx(rows: EntryExportRow[], methods: NdtMethod[]): Promise<Buffer> {
+  const columns = exportColumns(rows, methods);
+  const workbook = new ExcelJS.Workbook();
+
+  const entrySheet = workbook.addWorksheet("Entries");
+  entrySheet.addRow(COLUMNS).font = { bold: true };
+  rows.forEach((row) => entrySheet.addRow(toRecord(row, columns)));
+  entrySheet.columns.forEach((column) => {
+    column.width = 18;
+  });
+
+  const totalsSheet = workbook.addWorksheet("Totals");
+  methodTotals(rows, columns).forEach((line, i) => {
+    const added = totalsSheet.addRow(line);
+    if (i === 0) added.font = { bold: true };
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { validateImport } from "./import";
+
+const methods = [{ code: "UT", label: "Ultrasonic" }];
+
+// Import one row with the given date and return what came back for it
+const importDate = (date: string) => {
+  const { rows } = validateImport(`date,location,method,hours\n${date},Plant,UT,8`, 1, methods);
+  return rows[0];
+};
+
+describe("import dates", () => {
+  it.each([
+    ["2024-03-04", "2024-03-04"],
+    ["03/04/2024", "2024-03-04"],
+    ["3/4/2024", "2024-03-04"],
+  ])("reads %s with a four-digit year", (value, expected) => {
+    const row = importDate(value);
+
+    expect(row.errors).toEqual([]);
+    expect(row.date).toBe(expected);
+    expect(row.entry?.date).toEqual(new Date(`${expected}T00:00:00Z`));
+  });
+
+  it.each(["3/4/24", "03/04/24"])("reads the two-digit year in %s as this century", (value) => {
+    const row = importDate(value);
+
+    expect(row.errors).toEqual([]);
+    expect(row.date).toBe("2024-03-04");
+    expect(row.entry?.date).toEqual(new Date("2024-03-04T00:00:00Z"));
+  });
+
+  it("rejects a year before 1900 rather than importing it", () => {
+    const row = importDate("3/4/0024");
+
+    expect(row.date).toBeNull();
+    expect(row.entry).toBeUndefined();
+    expect(row.errors).toContain("Date must be YYYY-MM-DD, MM/DD/YYYY or MM/DD/YY");
+  });
+});
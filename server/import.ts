@@ -0,0 +1,179 @@
+import { parse, isValid } from "date-fns";
+import { insertEntrySchema, type InsertEntry } from "@shared/schema";
+import { type MethodColumn } from "@shared/methods";
+
+// Largest paper log accepted in one import
+export const MAX_IMPORT_ROWS = 2000;
+
+const REQUIRED_COLUMNS = ["date", "location", "method", "hours"] as const;
+const DATE_FORMATS = ["yyyy-MM-dd", "MM/dd/yyyy", "M/d/yyyy"];
+// date-fns reads "24" as the year 24 under yyyy, so two-digit years only go through these
+const TWO_DIGIT_YEAR_FORMATS = ["MM/dd/yy", "M/d/yy"];
+const EARLIEST_YEAR = 1900;
+
+export interface ImportRow {
+  line: number;
+  values: {
+    date: string;
+    location: string;
+    method: string;
+    hours: string;
+    verifier: string;
+  };
+  // The date as read, YYYY-MM-DD, so the preview shows how the year was taken
+  date: string | null;
+  errors: string[];
+  entry?: InsertEntry & { importedVerifier: string | null };
+}
+
+// Split CSV text into records, honouring quoted fields with embedded commas, quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Dates are stored as UTC midnight, as for entries added through the form. A two-digit year is
+// taken as the nearest one, e.g. 24 as 2024.
+function parseDate(value: string): Date | undefined {
+  const formats = /\/\d{2}$/.test(value) ? TWO_DIGIT_YEAR_FORMATS : DATE_FORMATS;
+  for (const format of formats) {
+    const date = parse(value, format, new Date());
+    if (isValid(date) && date.getFullYear() >= EARLIEST_YEAR) {
+      return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    }
+  }
+  return undefined;
+}
+
+// Accept the method codes as well as their labels, e.g. the "UT Thk." printed on the paper form
+function normalizeMethod(value: string): string {
+  return value.trim().toUpperCase().replace(/\./g, "").replace(/\s+/g, "_");
+}
+
+function resolveMethod(value: string, methods: MethodColumn[]): string | undefined {
+  const normalized = normalizeMethod(value);
+  return methods.find(
+    (method) => normalizeMethod(method.code) === normalized || normalizeMethod(method.label) === normalized,
+  )?.code;
+}
+
+// Validate every row of an import for a user against the active methods, returning per-row errors
+// alongside the parsed entries
+export function validateImport(
+  text: string,
+  userId: number,
+  methods: MethodColumn[],
+): { rows: ImportRow[]; error?: string } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { rows: [], error: "The file is empty" };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return { rows: [], error: `Missing column(s): ${missing.join(", ")}` };
+  }
+  if (records.length === 0) {
+    return { rows: [], error: "The file has no entries" };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  const column = (record: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? (record[index] ?? "").trim() : "";
+  };
+
+  const rows = records.map((record, i): ImportRow => {
+    const values = {
+      date: column(record, "date"),
+      location: column(record, "location"),
+      method: column(record, "method"),
+      hours: column(record, "hours"),
+      verifier: column(record, "verifier"),
+    };
+    const errors: string[] = [];
+
+    const date = parseDate(values.date);
+    if (!date) {
+      errors.push("Date must be YYYY-MM-DD, MM/DD/YYYY or MM/DD/YY");
+    }
+
+    const method = resolveMethod(values.method, methods);
+    if (!method) {
+      errors.push(`Method must be one of ${methods.map((option) => option.code).join(", ")}`);
+    }
+
+    const hours = Number(values.hours);
+    if (values.hours === "" || !Number.isFinite(hours) || hours <= 0) {
+      errors.push("Hours must be a number greater than 0");
+    }
+
+    const parsed = insertEntrySchema.safeParse({
+      userId,
+      date,
+      location: values.location,
+      method: method ?? values.method,
+      hours,
+    });
+    if (!values.location) {
+      errors.push("Location is required");
+    } else if (!parsed.success && errors.length === 0) {
+      errors.push(...parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`));
+    }
+
+    return {
+      // Line numbers as shown in a spreadsheet, counting the header
+      line: i + 2,
+      values,
+      date: date ? date.toISOString().split("T")[0] : null,
+      errors,
+      entry:
+        parsed.success && errors.length === 0
+          ? { ...parsed.data, importedVerifier: values.verifier || null }
+          : undefined,
+    };
+  });
+
+  return { rows };
+}
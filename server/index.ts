@@ -3,7 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Served behind the hosting proxy; take the client IP recorded for verifiers from X-Forwarded-For
+app.set("trust proxy", 1);
+// Large enough for a CSV import of several years of paper logs
+app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,67 @@
+import { type Express } from "express";
+import path from "path";
+import { OUTBOX_DIR, readOutbox } from "./mail";
+import { escapeHtml } from "./templates";
+
+// Outbox IDs are generated timestamps; anything else could reach outside the outbox directory
+const isOutboxId = (id: string) => /^[\w-]+$/.test(id);
+
+// Dev-only pages for reading the emails the outbox transport wrote instead of sending
+export function registerOutboxRoutes(app: Express) {
+  app.get("/dev/outbox", async (_req, res) => {
+    const items = await readOutbox();
+    const rows = items
+      .map(
+        (item) => `
+          <tr>
+            <td>${new Date(item.sentAt).toLocaleString()}</td>
+            <td>${escapeHtml(item.to)}</td>
+            <td><a href="/dev/outbox/${item.id}">${escapeHtml(item.subject)}</a></td>
+            <td><a href="/dev/outbox/${item.id}.eml">.eml</a></td>
+          </tr>`,
+      )
+      .join("");
+
+    res.send(`
+      <!doctype html>
+      <title>Outbox</title>
+      <div style="font-family: sans-serif; max-width: 900px; margin: 0 auto;">
+        <h1>Outbox</h1>
+        <p>Emails written to ${escapeHtml(OUTBOX_DIR)} instead of being sent.</p>
+        <table style="width: 100%; border-collapse: collapse; text-align: left;" cellpadding="6">
+          <thead><tr><th>Sent</th><th>To</th><th>Subject</th><th></th></tr></thead>
+          <tbody>${rows || '<tr><td colspan="4">No emails yet.</td></tr>'}</tbody>
+        </table>
+      </div>
+    `);
+  });
+
+  app.get("/dev/outbox/:id.eml", (req, res) => {
+    if (!isOutboxId(req.params.id)) {
+      return res.status(404).send("Not found");
+    }
+    res.download(path.join(OUTBOX_DIR, `${req.params.id}.eml`), (error) => {
+      if (error && !res.headersSent) res.status(404).send("Not found");
+    });
+  });
+
+  app.get("/dev/outbox/:id", async (req, res) => {
+    const item = (await readOutbox()).find(({ id }) => id === req.params.id);
+    if (!item) {
+      return res.status(404).send("Not found");
+    }
+
+    res.send(`
+      <!doctype html>
+      <title>${escapeHtml(item.subject)}</title>
+      <div style="font-family: sans-serif; max-width: 900px; margin: 0 auto;">
+        <p><a href="/dev/outbox">&larr; Outbox</a></p>
+        <p><strong>To:</strong> ${escapeHtml(item.to)}<br />
+          <strong>Subject:</strong> ${escapeHtml(item.subject)}<br />
+          <strong>Sent:</strong> ${new Date(item.sentAt).toLocaleString()}</p>
+        <hr />
+      </div>
+      ${item.html}
+    `);
+  });
+}
@@ -0,0 +1,259 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { format } from "date-fns";
+import { type ExportSnapshot } from "@shared/schema";
+import { entryLines, hoursByMethod, type MethodColumn } from "@shared/methods";
+
+// An issued OJT log, rendered onto the 100-FORM-95 sheet
+export interface OjtLogDocument {
+  documentId: string;
+  verificationUrl: string;
+  issuedAt: Date;
+  snapshot: ExportSnapshot;
+}
+
+type SnapshotEntry = ExportSnapshot["entries"][number];
+
+// Layout of the blank form on US letter portrait, in mm
+const PAGE_LEFT = 12.5;
+const TITLE_Y = 25;
+const EMPLOYEE_Y = 36;
+const TABLE_TOP = 38.5;
+const HEADER_ROW_HEIGHT = 8.3;
+const ROW_HEIGHT = 8;
+const LINE_HEIGHT = 3;
+// The blank form has room for 16 entry rows per sheet
+const BODY_HEIGHT = 16 * ROW_HEIGHT;
+const FORM_NUMBER_Y = 251;
+
+const DATE_WIDTH = 14.3;
+const LOCATION_WIDTH = 25.4;
+// The blank form's nine method columns; the snapshot's methods share this width however many there are
+const METHODS_WIDTH = 9 * 12.7;
+const SUPERVISOR_WIDTH = 40.5;
+const TABLE_WIDTH = DATE_WIDTH + LOCATION_WIDTH + METHODS_WIDTH + SUPERVISOR_WIDTH;
+
+const METHODS_LEFT = PAGE_LEFT + DATE_WIDTH + LOCATION_WIDTH;
+const SUPERVISOR_LEFT = METHODS_LEFT + METHODS_WIDTH;
+const TABLE_RIGHT = PAGE_LEFT + TABLE_WIDTH;
+
+// Method columns printed on a log
+interface MethodLayout {
+  columns: MethodColumn[];
+  width: number;
+}
+
+// Logs issued before the method catalog name their methods only in the totals
+function methodLayout(snapshot: ExportSnapshot): MethodLayout {
+  const columns =
+    snapshot.methods ?? Object.keys(snapshot.totals).map((code) => ({ code, label: code }));
+  return { columns, width: METHODS_WIDTH / Math.max(1, columns.length) };
+}
+
+interface LayoutRow {
+  entry: SnapshotEntry;
+  dateLines: string[];
+  locationLines: string[];
+  supervisorLines: string[];
+  height: number;
+}
+
+// Wrap the text columns and size each row to fit its tallest cell
+function layoutRow(doc: jsPDF, entry: SnapshotEntry): LayoutRow {
+  const dateLines = doc.splitTextToSize(format(new Date(entry.date), "MM/dd/yyyy"), DATE_WIDTH - 2);
+  const locationLines = doc.splitTextToSize(entry.location, LOCATION_WIDTH - 2);
+  const supervisorLines = doc.splitTextToSize(entry.verifiedBy || "", SUPERVISOR_WIDTH - 2);
+  const lineCount = Math.max(dateLines.length, locationLines.length, supervisorLines.length);
+
+  return {
+    entry,
+    dateLines,
+    locationLines,
+    supervisorLines,
+    height: Math.max(ROW_HEIGHT, lineCount * LINE_HEIGHT + 2.5),
+  };
+}
+
+// Split rows into sheets so no sheet grows past the blank form's table
+function paginate(rows: LayoutRow[]): LayoutRow[][] {
+  const pages: LayoutRow[][] = [[]];
+  let used = 0;
+
+  for (const row of rows) {
+    if (used + row.height > BODY_HEIGHT && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      used = 0;
+    }
+    pages[pages.length - 1].push(row);
+    used += row.height;
+  }
+
+  return pages;
+}
+
+function drawCellLines(doc: jsPDF, lines: string[], x: number, y: number, width: number, height: number) {
+  const top = y + (height - lines.length * LINE_HEIGHT) / 2 + LINE_HEIGHT - 0.6;
+  lines.forEach((line, i) => {
+    doc.text(line, x + width / 2, top + i * LINE_HEIGHT, { align: "center" });
+  });
+}
+
+function drawRowGrid(doc: jsPDF, methods: MethodLayout, y: number, height: number) {
+  doc.rect(PAGE_LEFT, y, TABLE_WIDTH, height);
+  let x = PAGE_LEFT + DATE_WIDTH;
+  doc.line(x, y, x, y + height);
+  x += LOCATION_WIDTH;
+  for (let i = 0; i <= methods.columns.length; i++) {
+    doc.line(x, y, x, y + height);
+    x += methods.width;
+  }
+}
+
+// Two-row header, repeated on every sheet
+function drawTableHeader(doc: jsPDF, methods: MethodLayout): number {
+  const y = TABLE_TOP;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(7);
+  doc.rect(PAGE_LEFT, y, TABLE_WIDTH, HEADER_ROW_HEIGHT * 2);
+  doc.line(PAGE_LEFT + DATE_WIDTH, y, PAGE_LEFT + DATE_WIDTH, y + HEADER_ROW_HEIGHT * 2);
+  doc.line(METHODS_LEFT, y, METHODS_LEFT, y + HEADER_ROW_HEIGHT * 2);
+  doc.line(SUPERVISOR_LEFT, y, SUPERVISOR_LEFT, y + HEADER_ROW_HEIGHT * 2);
+  doc.line(PAGE_LEFT, y + HEADER_ROW_HEIGHT, TABLE_RIGHT, y + HEADER_ROW_HEIGHT);
+  doc.text(
+    "Actual Hours Worked for Each Method",
+    METHODS_LEFT + (SUPERVISOR_LEFT - METHODS_LEFT) / 2,
+    y + HEADER_ROW_HEIGHT / 2 + 1,
+    { align: "center" },
+  );
+
+  const labelY = y + HEADER_ROW_HEIGHT * 1.5 + 1;
+  doc.text("Job Date", PAGE_LEFT + DATE_WIDTH / 2, labelY, { align: "center" });
+  doc.text("Job Location", PAGE_LEFT + DATE_WIDTH + LOCATION_WIDTH / 2, labelY, { align: "center" });
+  methods.columns.forEach((method, i) => {
+    const x = METHODS_LEFT + i * methods.width;
+    doc.line(x, y + HEADER_ROW_HEIGHT, x, y + HEADER_ROW_HEIGHT * 2);
+    doc.text(method.label, x + methods.width / 2, labelY, { align: "center" });
+  });
+  doc.text("Supervisor Signature", SUPERVISOR_LEFT + SUPERVISOR_WIDTH / 2, labelY, { align: "center" });
+
+  doc.setFont("helvetica", "normal");
+  return y + HEADER_ROW_HEIGHT * 2;
+}
+
+function drawEntryRow(doc: jsPDF, methods: MethodLayout, row: LayoutRow, y: number) {
+  drawRowGrid(doc, methods, y, row.height);
+  drawCellLines(doc, row.dateLines, PAGE_LEFT, y, DATE_WIDTH, row.height);
+  drawCellLines(doc, row.locationLines, PAGE_LEFT + DATE_WIDTH, y, LOCATION_WIDTH, row.height);
+  // A split workday fills one cell per method, like the paper form
+  for (const line of entryLines(row.entry)) {
+    const methodIndex = methods.columns.findIndex((method) => method.code === line.method);
+    if (methodIndex >= 0) {
+      drawCellLines(
+        doc,
+        [line.hours.toFixed(1)],
+        METHODS_LEFT + methodIndex * methods.width,
+        y,
+        methods.width,
+        row.height,
+      );
+    }
+  }
+  drawCellLines(doc, row.supervisorLines, SUPERVISOR_LEFT, y, SUPERVISOR_WIDTH, row.height);
+}
+
+function drawTotalRow(
+  doc: jsPDF,
+  methods: MethodLayout,
+  label: string,
+  totals: Record<string, number>,
+  y: number,
+) {
+  drawRowGrid(doc, methods, y, ROW_HEIGHT);
+  doc.setFont("helvetica", "bold");
+  drawCellLines(doc, [label], PAGE_LEFT + DATE_WIDTH, y, LOCATION_WIDTH, ROW_HEIGHT);
+  methods.columns.forEach((method, i) => {
+    drawCellLines(
+      doc,
+      [(totals[method.code] ?? 0).toFixed(1)],
+      METHODS_LEFT + i * methods.width,
+      y,
+      methods.width,
+      ROW_HEIGHT,
+    );
+  });
+  doc.setFont("helvetica", "normal");
+}
+
+// Render an issued log onto as many 100-FORM-95 sheets as it needs
+export async function renderOjtLogPdf(log: OjtLogDocument): Promise<Buffer> {
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "letter" });
+  const { snapshot } = log;
+  const methods = methodLayout(snapshot);
+  const qrCode = await QRCode.toDataURL(log.verificationUrl, { margin: 1, width: 256 });
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  const pages = paginate(snapshot.entries.map((entry) => layoutRow(doc, entry)));
+
+  pages.forEach((rows, pageIndex) => {
+    if (pageIndex > 0) {
+      doc.addPage();
+    }
+    const isLastPage = pageIndex === pages.length - 1;
+
+    // Title, employee details and the document ID / QR code for checking the sheet online
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(79, 129, 189);
+    doc.text("Experience Hours (OJT)", PAGE_LEFT, TITLE_Y);
+    doc.setTextColor(0);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(
+      `Employee Name (Print) : ${snapshot.technician.name || ""}    Employee Number : ${snapshot.technician.employeeNumber || ""}`,
+      PAGE_LEFT + 2,
+      EMPLOYEE_Y,
+    );
+    doc.addImage(qrCode, "PNG", TABLE_RIGHT - 22, 6, 22, 22);
+    doc.setFontSize(7);
+    doc.text(`Document ID: ${log.documentId}`, TABLE_RIGHT, 31, { align: "right" });
+
+    let y = drawTableHeader(doc, methods);
+    for (const row of rows) {
+      drawEntryRow(doc, methods, row, y);
+      y += row.height;
+    }
+
+    // Pad with empty rows so every sheet keeps the blank form's shape
+    const used = rows.reduce((sum, row) => sum + row.height, 0);
+    for (let i = 0; i < Math.floor((BODY_HEIGHT - used) / ROW_HEIGHT + 0.01); i++) {
+      drawRowGrid(doc, methods, y, ROW_HEIGHT);
+      y += ROW_HEIGHT;
+    }
+
+    if (pages.length === 1) {
+      drawTotalRow(doc, methods, "Total Hours", snapshot.totals, y);
+      y += ROW_HEIGHT;
+    } else {
+      drawTotalRow(doc, methods, "Page Total", hoursByMethod(rows.map((row) => row.entry)), y);
+      y += ROW_HEIGHT;
+      if (isLastPage) {
+        drawTotalRow(doc, methods, "Grand Total", snapshot.totals, y);
+        y += ROW_HEIGHT;
+      }
+    }
+
+    doc.setFontSize(10);
+    doc.text("The above is true and accurate to the best of my knowledge.", PAGE_LEFT + 2, y + 13);
+    doc.setFontSize(7);
+    doc.text(`Employee Signature : ${snapshot.technician.name || ""}`, PAGE_LEFT + 2, y + 32);
+    doc.text(`Date : ${format(log.issuedAt, "MM/dd/yyyy")}`, 138, y + 32);
+
+    doc.text("100-FORM-95 Rev 0", PAGE_LEFT + 2, FORM_NUMBER_Y);
+    doc.text(`Page ${pageIndex + 1} of ${pages.length}`, TABLE_RIGHT, FORM_NUMBER_Y, { align: "right" });
+    doc.text(`Verify this log at ${log.verificationUrl}`, PAGE_LEFT + 2, FORM_NUMBER_Y + 5);
+  });
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,109 @@
+import { storage } from "./storage";
+import { sendCertificationReminder, sendVerificationEscalation, sendVerificationReminder } from "./email";
+import { unsubscribeUrl } from "./unsubscribe";
+
+// Reminders go out as each threshold is crossed, and once more when a date lapses
+export const REMINDER_THRESHOLD_DAYS = [90, 30, 7, 0];
+
+// A supervisor is reminded of an unanswered verification request every few days, and after the last
+// reminder the trainee is told instead, e.g. VERIFICATION_REMINDER_DAYS=3 VERIFICATION_REMINDERS=2
+export const VERIFICATION_REMINDER_DAYS = Number(process.env.VERIFICATION_REMINDER_DAYS) || 3;
+export const VERIFICATION_REMINDERS = Number(process.env.VERIFICATION_REMINDERS) || 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// The tightest threshold a due date has crossed, if any
+function crossedThreshold(daysLeft: number): number | undefined {
+  return [...REMINDER_THRESHOLD_DAYS].reverse().find((days) => daysLeft <= days);
+}
+
+export async function sendCertificationReminders(now: Date = new Date()): Promise<number> {
+  const horizon = new Date(now.getTime() + REMINDER_THRESHOLD_DAYS[0] * DAY_MS);
+  const expiring = await storage.getExpiringCertifications(horizon);
+  let sent = 0;
+
+  for (const { certification, user } of expiring) {
+    if (!user.notificationPreferences.certificationReminders) continue;
+
+    const visionDue = certification.visionExamAt ? new Date(certification.visionExamAt) : null;
+    visionDue?.setFullYear(visionDue.getFullYear() + 1);
+
+    const checks = [
+      { kind: "expiry" as const, due: new Date(certification.expiresAt), last: certification.expiryReminderDays },
+      { kind: "vision" as const, due: visionDue, last: certification.visionReminderDays },
+    ];
+
+    for (const { kind, due, last } of checks) {
+      if (!due) continue;
+
+      const daysLeft = Math.ceil((due.getTime() - now.getTime()) / DAY_MS);
+      const threshold = crossedThreshold(daysLeft);
+      if (threshold === undefined || (last !== null && last <= threshold)) continue;
+
+      const delivery = await sendCertificationReminder(
+        user,
+        certification,
+        kind,
+        due,
+        Math.max(0, daysLeft),
+        unsubscribeUrl(user.id, "certificationReminders"),
+      );
+      // Recorded once queued; the email queue retries it from there
+      if (delivery !== "failed") {
+        await storage.setCertificationReminder(certification.id, kind, threshold);
+        sent++;
+      }
+    }
+  }
+
+  return sent;
+}
+
+// Check for due reminders now and every few hours after
+export function scheduleCertificationReminders() {
+  const run = () =>
+    sendCertificationReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`Sent ${sent} certification reminder(s)`);
+      })
+      .catch((error) => console.error("Error sending certification reminders:", error));
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
+
+// Remind supervisors of requests left unanswered, and tell the trainee once the reminders run out.
+// Verified, rejected and cancelled requests drop out of the stale list, which stops their reminders.
+export async function sendVerificationReminders(now: Date = new Date()): Promise<number> {
+  const quietSince = new Date(now.getTime() - VERIFICATION_REMINDER_DAYS * DAY_MS);
+  const stale = await storage.getStaleVerificationRequests(quietSince);
+  let sent = 0;
+
+  for (const { request, supervisor, technician, entries } of stale) {
+    const escalate = request.reminderCount >= VERIFICATION_REMINDERS;
+    const delivery = escalate
+      ? await sendVerificationEscalation(technician, supervisor, entries, request)
+      : await sendVerificationReminder(supervisor, technician, entries, request);
+    // Once queued, the email queue owns retrying it; recording it now keeps the next run from sending it again
+    if (delivery !== "failed") {
+      await storage.recordVerificationReminder(request.id, escalate);
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+// Check for unanswered verification requests now and every few hours after
+export function scheduleVerificationReminders() {
+  const run = () =>
+    sendVerificationReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`Sent ${sent} verification reminder(s)`);
+      })
+      .catch((error) => console.error("Error sending verification reminders:", error));
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
@@ -5,35 +5,204 @@ import express, {
   NextFunction,
 } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import {
+  storage,
+  type EntryExportFilters,
+  type VerifierContext,
+} from "./storage";
 import { randomBytes, randomUUID } from "crypto";
 import session from "express-session";
 import PgStore from "connect-pg-simple";
 import { add } from "date-fns";
 import { pool } from "./db";
 import { db } from "./db";
-import { users, entries, supervisors, type User } from "@shared/schema";
-import { eq, and, isNotNull } from "drizzle-orm";
+import {
+  users,
+  entries,
+  supervisors,
+  verificationRequests,
+  exportedLogs,
+  certifications,
+  jobs,
+  LOCALES,
+  type Entry,
+  type ExportSnapshot,
+  type Job,
+  type Supervisor,
+  type User,
+  type VerificationRequest,
+} from "@shared/schema";
+import { canSignMethod, requiredSigningLevel } from "@shared/certification";
+import {
+  Permissions,
+  Roles,
+  hasPermission,
+  type Permission,
+} from "@shared/permissions";
+import { eq, and, arrayContains, isNotNull, isNull } from "drizzle-orm";
 import {
   getBaseUrl,
-  sendEmail,
+  sendVerificationCode,
   sendVerificationConfirmation,
+  sendVerificationRejection,
   sendVerificationRequest,
 } from "./email";
 import {
+  insertCertificationRequirementSchema,
+  insertCertificationSchema,
   insertEntrySchema,
+  insertJobSchema,
+  insertNdtMethodSchema,
+  insertOrganizationSchema,
   insertSupervisorSchema,
   insertUserSchema,
+  updateCertificationSchema,
+  updateEntrySchema,
+  updateNdtMethodSchema,
+  type NdtMethod,
 } from "@shared/schema";
 import { z } from "zod";
 import { compare, hash } from "bcrypt";
+import { sendMagicLinkEmail } from "./mailsender";
+import { retryFailedEmail, scheduleEmailQueue, sendEmail } from "./mail";
+import { registerOutboxRoutes } from "./outbox";
+import { escapeHtml, renderEmail } from "./templates";
+import { renderDigest, scheduleWeeklyDigests } from "./digest";
+import { readUnsubscribeToken } from "./unsubscribe";
+import {
+  generateDocumentId,
+  generateToken,
+  generateVerificationCode,
+  hashToken,
+} from "./tokens";
+import { renderOjtLogPdf } from "./pdf";
+import { validateImport, type ImportRow } from "./import";
+import {
+  checkEntries,
+  ruleErrors,
+  ruleFlags,
+  type EntryCandidate,
+  type EntryIssue,
+} from "./rules";
+import {
+  DEFAULT_CERTIFICATION_REQUIREMENTS,
+  DEFAULT_NDT_METHODS,
+} from "./certification";
+import {
+  entryMethodCodes,
+  hoursByMethod,
+  linesToEntry,
+  methodColumns,
+} from "@shared/methods";
+import { scheduleCertificationReminders, scheduleVerificationReminders } from "./reminders";
+import {
+  entryExportQuerySchema,
+  renderEntriesCsv,
+  renderEntriesXlsx,
+} from "./export";
+import {
+  SIGNATURE_ALGORITHM,
+  checkEntrySignature,
+  signedPayload,
+  signingKeyId,
+  signingPublicKey,
+} from "./signing";
+
+// Magic link tokens are short-lived and single-use
+const MAGIC_LINK_TTL_MINUTES = 15;
+
+// Verification links stay valid for this long unless cancelled or re-sent
+const VERIFICATION_LINK_TTL_DAYS = 14;
+
+// Codes confirming the verifier's email are short-lived, can be re-sent after a minute
+// and stop working after a few wrong guesses
+const VERIFICATION_CODE_TTL_MINUTES = 10;
+const VERIFICATION_CODE_RESEND_SECONDS = 60;
+const VERIFICATION_CODE_MAX_ATTEMPTS = 5;
+
+// Unknown emails only get an account on their first magic link login when MAGIC_LINK_AUTO_REGISTER=true
+const MAGIC_LINK_AUTO_REGISTER = process.env.MAGIC_LINK_AUTO_REGISTER === "true";
+
+// Who is deciding on entries and where the request came from, for the entry history
+function verifierContext(req: Request, email: string): VerifierContext {
+  return {
+    email,
+    ip: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+  };
+}
+
+// Why the supervisor may not sign these entries, if their certification level is too low
+function signingLevelError(
+  supervisor: Supervisor,
+  trainee: User,
+  entriesToSign: Entry[],
+): string | undefined {
+  const scheme = trainee.certificationScheme;
+  // A split entry is signed as one unit, so every one of its methods must be signable
+  const method = entryMethodCodes(entriesToSign).find(
+    (code) => !canSignMethod(supervisor.certificationLevel, scheme, code),
+  );
+  if (!method) return undefined;
+
+  return `A ${supervisor.certificationLevel} supervisor cannot sign ${method} hours under ${scheme}; ${requiredSigningLevel(scheme, method)} or higher is required`;
+}
+
+// Split entries also store their first method and total hours, so anything reading only those still adds up.
+// Sending a method or hours without lines makes the entry a single-method one again.
+function withLineTotals<T extends Partial<Pick<Entry, "method" | "hours" | "lines">>>(data: T): T {
+  if (data.lines?.length) return { ...data, ...linesToEntry(data.lines) };
+  if (data.method !== undefined || data.hours !== undefined) return { ...data, lines: null };
+  return data;
+}
+
+// Jobs are shared within an organization; technicians without one only see their own
+function canUseJob(user: User, job: Job): boolean {
+  return user.organizationId === null
+    ? job.organizationId === null && job.createdBy === user.id
+    : job.organizationId === user.organizationId;
+}
+
+// Show only enough of an address for the verifier to recognise where the code went
+function maskEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+// Freeze the verified entries as they appear on an exported log
+function buildExportSnapshot(
+  user: User,
+  verifiedEntries: Entry[],
+  methods: NdtMethod[],
+): ExportSnapshot {
+  const columns = methodColumns(methods, entryMethodCodes(verifiedEntries));
+  const totals: Record<string, number> = {
+    ...Object.fromEntries(columns.map((method) => [method.code, 0])),
+    ...hoursByMethod(verifiedEntries),
+  };
+
+  return {
+    technician: { name: user.name, employeeNumber: user.employeeNumber },
+    methods: columns,
+    entries: verifiedEntries.map((entry) => ({
+      id: entry.id,
+      date: new Date(entry.date).toISOString(),
+      location: entry.location,
+      method: entry.method,
+      hours: entry.hours,
+      lines: entry.lines,
+      verifiedBy: entry.verifiedBy,
+      verifiedAt: entry.verifiedAt ? new Date(entry.verifiedAt).toISOString() : null,
+    })),
+    totals,
+    totalHours: verifiedEntries.reduce((sum, entry) => sum + entry.hours, 0),
+  };
+}
 
 // Extend express-session types
 declare module "express-session" {
   interface SessionData {
     userId?: number;
-    magicLinkToken?: string;
-    magicLinkEmail?: string;
   }
 }
 
@@ -77,7 +246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use((req, res, next) => {
     res.header("Access-Control-Allow-Credentials", "true");
     res.header("Access-Control-Allow-Origin", req.headers.origin || "*");
-    res.header("Access-Control-Allow-Methods", "GET,PUT,POST,DELETE,OPTIONS");
+    res.header("Access-Control-Allow-Methods", "GET,PUT,PATCH,POST,DELETE,OPTIONS");
     res.header(
       "Access-Control-Allow-Headers",
       "X-Requested-With, X-HTTP-Method-Override, Content-Type, Accept",
@@ -85,36 +254,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   });
 
-  // Authentication middleware
-  const requireAuth = (req: Request, res: Response, next: Function) => {
-    console.log(
-      `Authentication check: session ID ${req.session.id}, user ID: ${req.session.userId || "not set"}`,
-    );
+  // Permission middleware; the roles behind each permission are in shared/permissions.ts
+  const requirePermission =
+    (permission: Permission) =>
+    async (req: Request, res: Response, next: Function) => {
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
 
-    if (!req.session.userId) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    next();
+      try {
+        const user = await storage.getUser(req.session.userId);
+        if (!user) {
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+        if (!hasPermission(user, permission)) {
+          return res
+            .status(403)
+            .json({ message: `Access denied: ${permission} permission required` });
+        }
+        next();
+      } catch (error) {
+        console.error("Error checking permissions:", error);
+        return res.status(500).json({ message: "Error checking permissions" });
+      }
+    };
+
+  // Admin views cover only the signed-in user's organization unless they may manage organizations
+  interface AdminScope {
+    actor: User;
+    organizationId?: number;
+  }
+
+  const noOrganizationError = {
+    message: "Access denied: you are not a member of an organization",
   };
 
-  // Admin middleware
-  const requireAdmin = async (req: Request, res: Response, next: Function) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ message: "Unauthorized" });
+  const getAdminScope = async (
+    req: Request,
+  ): Promise<AdminScope | undefined> => {
+    const actor = await storage.getUser(req.session.userId!);
+    if (!actor) return undefined;
+    if (hasPermission(actor, Permissions.MANAGE_ORGANIZATIONS)) {
+      return { actor };
     }
+    if (actor.organizationId === null) return undefined;
+    return { actor, organizationId: actor.organizationId };
+  };
 
-    try {
-      const user = await storage.getUser(req.session.userId);
-      if (!user || !user.isAdmin) {
-        return res
-          .status(403)
-          .json({ message: "Access denied: Admin privileges required" });
-      }
-      next();
-    } catch (error) {
-      console.error("Error checking admin status:", error);
-      return res.status(500).json({ message: "Error checking admin status" });
-    }
+  const isInScope = (scope: AdminScope, user: User) =>
+    scope.organizationId === undefined ||
+    user.organizationId === scope.organizationId;
+
+  // Entries may only be booked against jobs the user can see
+  const isUsableJob = async (user: User, jobId: number | null | undefined) => {
+    if (jobId === null || jobId === undefined) return true;
+    const job = await storage.getJob(jobId);
+    return !!job && canUseJob(user, job);
+  };
+
+  const jobNotFoundError = { message: "Job not found" };
+
+  // New records may only use methods that are active in the catalog
+  const areActiveMethods = async (codes: string[]) => {
+    if (codes.length === 0) return true;
+    const methods = await storage.getMethods();
+    return codes.every((code) =>
+      methods.some((method) => method.code === code && method.active),
+    );
+  };
+
+  const inactiveMethodError = {
+    message: "Choose a method from the active method catalog",
+  };
+
+  // Run the entry rules over new or edited entries against the user's saved log
+  const checkEntryRules = async (
+    user: User,
+    candidates: EntryCandidate[],
+    editingId?: number,
+  ) =>
+    checkEntries(candidates, {
+      user,
+      existing: await storage.getEntries(user.id),
+      editingId,
+    });
+
+  // The first error stands as the message; every issue is listed for the form
+  const ruleError = (issues: EntryIssue[][]) => {
+    const errors = issues.flatMap(ruleErrors);
+    return errors.length > 0 ? { message: errors[0].message, issues } : undefined;
+  };
+
+  // Run the entry rules over the rows of an import that parsed, adding their errors to those rows.
+  // Returns each row's issues, empty for rows that didn't parse.
+  const checkImportRows = async (user: User, rows: ImportRow[]) => {
+    const parsed = rows.filter((row) => row.entry);
+    const issues = await checkEntryRules(user, parsed.map((row) => row.entry!));
+    parsed.forEach((row, i) => {
+      row.errors.push(...ruleErrors(issues[i]).map((issue) => issue.message));
+    });
+    let next = 0;
+    return rows.map((row) => (row.entry ? issues[next++] : []));
   };
 
   // Authentication routes
@@ -247,33 +487,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const baseUrl = getBaseUrl();
       const resetUrl = `${baseUrl}/reset-password/${resetToken}`;
 
-      // Create email HTML
-      const html = `
-        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>OJT Hours Tracker - Password Reset</h2>
-          <p>You recently requested to reset your password. Click the button below to reset it:</p>
-          
-          <p>
-            <a 
-              href="${resetUrl}" 
-              style="display: inline-block; padding: 10px 20px; background-color: #42be65; color: white; text-decoration: none; border-radius: 4px;"
-            >
-              Reset Password
-            </a>
-          </p>
-          <p>Or copy and paste this URL into your browser:</p>
-          <p>${resetUrl}</p>
-          
-          <p>This link will expire in 1 hour. If you did not request a password reset, you can safely ignore this email.</p>
-        </div>
-      `;
-
       // Send email
-      const emailSent = await sendEmail(
-        user.email,
-        "Reset your OJT Hours Tracker password",
-        html,
-      );
+      const { subject, html, text } = renderEmail("password-reset", user.locale, { resetUrl });
+      const emailSent = (await sendEmail(user.email, subject, html, { text })) === "sent";
 
       // Log reset token for debugging
       console.log(
@@ -332,6 +548,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           resetTokenExpiry: null,
         })
         .where(eq(users.id, user.id));
+      // The reset link was emailed, so using it proves the address
+      await storage.markEmailVerified(user.id);
 
       res.json({ message: "Password reset successful" });
     } catch (error) {
@@ -340,8 +558,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Request a magic login link
+  app.post("/api/auth/request-magic-link", async (req, res) => {
+    try {
+      const { email } = z
+        .object({ email: z.string().trim().email() })
+        .parse(req.body);
+
+      const genericResponse = {
+        message: "If this email can sign in, a login link has been sent",
+      };
+
+      // Without auto-registration, silently ignore unknown emails to prevent enumeration
+      const user = await storage.getUserByEmail(email);
+      if (!user && !MAGIC_LINK_AUTO_REGISTER) {
+        return res.json(genericResponse);
+      }
+
+      // Only the hash is stored, the raw token goes out in the email
+      const token = generateToken();
+      const expiresAt = add(new Date(), { minutes: MAGIC_LINK_TTL_MINUTES });
+      await storage.createMagicLinkToken(email, hashToken(token), expiresAt);
+
+      const { loginUrl, emailSent } = await sendMagicLinkEmail(
+        email,
+        token,
+        MAGIC_LINK_TTL_MINUTES,
+      );
+
+      // Hand the link back directly only in development when email delivery fails
+      if (!emailSent && !isProduction) {
+        return res.json({ ...genericResponse, loginUrl });
+      }
+
+      res.json(genericResponse);
+    } catch (error) {
+      console.error("Magic link request error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "A valid email is required" });
+      }
+      res.status(500).json({ message: "Error sending magic link" });
+    }
+  });
+
+  // Consume a magic link token and log the user in
+  app.post("/api/auth/verify-magic-link", async (req, res) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Token is required" });
+      }
+
+      const magicLink = await storage.consumeMagicLinkToken(hashToken(token));
+      if (!magicLink) {
+        return res.status(400).json({ message: "Invalid or expired login link" });
+      }
+
+      const existingUser = await storage.getUserByEmail(magicLink.email);
+      if (!existingUser && !MAGIC_LINK_AUTO_REGISTER) {
+        return res.status(400).json({ message: "Invalid or expired login link" });
+      }
+
+      // Auto-register a passwordless account for the verified email
+      const account =
+        existingUser ??
+        (await storage.createUser(
+          insertUserSchema.parse({ email: magicLink.email }),
+        ));
+      if (!existingUser) {
+        console.log(`Auto-registered user ${account.id} via magic link`);
+      }
+
+      // Following the link proves the user reads this inbox
+      const user = (await storage.markEmailVerified(account.id)) ?? account;
+
+      req.session.userId = user.id;
+
+      // Save session explicitly before responding
+      req.session.save((err) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Error saving session" });
+        }
+
+        const { password: _, ...userWithoutPassword } = user;
+        res.json(userWithoutPassword);
+      });
+    } catch (error) {
+      console.error("Magic link login error:", error);
+      res.status(500).json({ message: "Error during magic link login" });
+    }
+  });
+
   // User routes
-  app.get("/api/user", requireAuth, async (req, res) => {
+  app.get("/api/user", requirePermission(Permissions.PROFILE), async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       if (!user) {
@@ -357,7 +668,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/user", requireAuth, async (req, res) => {
+  app.patch("/api/user", requirePermission(Permissions.PROFILE), async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       if (!user) {
@@ -368,9 +679,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updateSchema = z.object({
         name: z.string().optional(),
         employeeNumber: z.string().optional(),
+        certificationScheme: z.string().optional(),
+        locale: z.enum(LOCALES).optional(),
+        notificationPreferences: z
+          .object({
+            weeklyDigest: z.boolean(),
+            certificationReminders: z.boolean(),
+          })
+          .partial()
+          .optional(),
       });
 
-      const { name, employeeNumber } = updateSchema.parse(req.body);
+      const { name, employeeNumber, certificationScheme, locale, notificationPreferences } =
+        updateSchema.parse(req.body);
+
+      // Only schemes present in the requirements catalog can be tracked against
+      if (
+        certificationScheme &&
+        (await storage.getCertificationRequirements(certificationScheme)).length === 0
+      ) {
+        return res
+          .status(400)
+          .json({ message: "Unknown certification scheme" });
+      }
 
       // Update user in database
       const updatedUser = await db
@@ -378,6 +709,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .set({
           name: name || user.name,
           employeeNumber: employeeNumber || user.employeeNumber,
+          certificationScheme: certificationScheme || user.certificationScheme,
+          locale: locale || user.locale,
+          notificationPreferences: { ...user.notificationPreferences, ...notificationPreferences },
         })
         .where(eq(users.id, user.id))
         .returning();
@@ -391,8 +725,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Unsubscribe links in emails work without signing in; the token says who and from what.
+  // GET only asks for confirmation, since link scanners and prefetchers follow links in emails.
+  // POST unsubscribes, both from that page and as the one-click List-Unsubscribe request mail clients send.
+  const unsubscribeTopics = {
+    weeklyDigest: "the weekly summary",
+    certificationReminders: "certification reminders",
+  };
+
+  const unsubscribePage = (title: string, body: string) => `
+    <!doctype html>
+    <title>${title}</title>
+    <div style="font-family: sans-serif; max-width: 600px; margin: 40px auto;">
+      <h2>${title}</h2>
+      ${body}
+    </div>
+  `;
+
+  app.get("/api/unsubscribe/:token", (req, res) => {
+    const target = readUnsubscribeToken(req.params.token);
+    if (!target) {
+      return res.status(404).send("This unsubscribe link is not valid.");
+    }
+
+    res.send(
+      unsubscribePage(
+        "Unsubscribe",
+        `<p>Stop receiving ${unsubscribeTopics[target.type]} emails?</p>
+        <form method="post" action="/api/unsubscribe/${escapeHtml(req.params.token)}">
+          <button type="submit">Unsubscribe</button>
+        </form>`,
+      ),
+    );
+  });
+
+  app.post("/api/unsubscribe/:token", async (req, res) => {
+    try {
+      const target = readUnsubscribeToken(req.params.token);
+      const user =
+        target &&
+        (await storage.updateNotificationPreferences(target.userId, { [target.type]: false }));
+      if (!target || !user) {
+        return res.status(404).send("This unsubscribe link is not valid.");
+      }
+
+      res.send(
+        unsubscribePage(
+          "You have been unsubscribed",
+          `<p>You will no longer receive ${unsubscribeTopics[target.type]} emails. You can turn them back on from your profile page.</p>
+          <p><a href="/profile">Open my profile</a></p>`,
+        ),
+      );
+    } catch (error) {
+      console.error(error);
+      res.status(500).send("Error unsubscribing");
+    }
+  });
+
   // Entry routes
-  app.get("/api/entries", requireAuth, async (req, res) => {
+  app.get("/api/entries", requirePermission(Permissions.OWN_LOG), async (req, res) => {
     try {
       const entries = await storage.getEntries(req.session.userId!);
       res.json(entries);
@@ -402,9 +793,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/entries", requireAuth, async (req, res) => {
+  app.post("/api/entries", requirePermission(Permissions.OWN_LOG), async (req, res) => {
     try {
       const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
       // Handle single entry or array of entries
       if (Array.isArray(req.body)) {
@@ -413,14 +808,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
           userId,
         }));
 
+        // Ensure dates are parsed properly, and check every row before saving any
+        const parsedEntries = entriesData.map((entryData) =>
+          withLineTotals(
+            insertEntrySchema.parse({
+              ...entryData,
+              date: new Date(entryData.date),
+            }),
+          ),
+        );
+        for (const parsedData of parsedEntries) {
+          if (!(await isUsableJob(user, parsedData.jobId))) {
+            return res.status(400).json(jobNotFoundError);
+          }
+          if (!(await areActiveMethods(entryMethodCodes([parsedData])))) {
+            return res.status(400).json(inactiveMethodError);
+          }
+        }
+
+        const issues = await checkEntryRules(user, parsedEntries);
+        const error = ruleError(issues);
+        if (error) {
+          return res.status(400).json(error);
+        }
+
         const createdEntries = [];
-        for (const entryData of entriesData) {
-          // Ensure date is parsed properly
-          const parsedData = insertEntrySchema.parse({
-            ...entryData,
-            date: new Date(entryData.date),
+        for (let i = 0; i < parsedEntries.length; i++) {
+          const newEntry = await storage.createEntry({
+            ...parsedEntries[i],
+            flags: ruleFlags(issues[i]),
           });
-          const newEntry = await storage.createEntry(parsedData);
           createdEntries.push(newEntry);
         }
 
@@ -432,11 +849,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
 
         // Ensure date is parsed properly
-        const parsedData = insertEntrySchema.parse({
-          ...entryData,
-          date: new Date(entryData.date),
+        const parsedData = withLineTotals(
+          insertEntrySchema.parse({
+            ...entryData,
+            date: new Date(entryData.date),
+          }),
+        );
+        if (!(await isUsableJob(user, parsedData.jobId))) {
+          return res.status(400).json(jobNotFoundError);
+        }
+        if (!(await areActiveMethods(entryMethodCodes([parsedData])))) {
+          return res.status(400).json(inactiveMethodError);
+        }
+
+        const issues = await checkEntryRules(user, [parsedData]);
+        const error = ruleError(issues);
+        if (error) {
+          return res.status(400).json(error);
+        }
+
+        const newEntry = await storage.createEntry({
+          ...parsedData,
+          flags: ruleFlags(issues[0]),
         });
-        const newEntry = await storage.createEntry(parsedData);
 
         res.status(201).json(newEntry);
       }
@@ -452,200 +887,1369 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Supervisor routes
-  app.get("/api/supervisors", requireAuth, async (req, res) => {
-    try {
-      const supervisors = await storage.getSupervisors(req.session.userId!);
-      res.json(supervisors);
-    } catch (error) {
-      console.error(error);
-      res.status(500).json({ message: "Error fetching supervisors" });
-    }
-  });
-
-  app.post("/api/supervisors", requireAuth, async (req, res) => {
+  // Run the entry rules over unsaved entries so the form can show warnings before saving
+  app.post("/api/entries/check", requirePermission(Permissions.OWN_LOG), async (req, res) => {
     try {
-      const supervisorData = {
-        ...req.body,
-        userId: req.session.userId!,
-      };
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      const parsedData = insertSupervisorSchema.parse(supervisorData);
-      const newSupervisor = await storage.createSupervisor(parsedData);
+      const { entries: candidates, editingId } = z
+        .object({
+          entries: z.array(
+            insertEntrySchema
+              .omit({ userId: true })
+              .extend({ date: z.coerce.date() }),
+          ),
+          editingId: z.number().int().optional(),
+        })
+        .parse(req.body);
 
-      res.status(201).json(newSupervisor);
+      const issues = await checkEntryRules(
+        user,
+        candidates.map(withLineTotals),
+        editingId,
+      );
+      res.json({ issues });
     } catch (error) {
       console.error(error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({
-          message: "Invalid supervisor data",
+          message: "Invalid entry data",
           errors: error.errors,
         });
       }
-      res.status(500).json({ message: "Error creating supervisor" });
+      res.status(500).json({ message: "Error checking entries" });
     }
   });
 
-  // Verification routes
-  app.post("/api/verify-request/:entryId", requireAuth, async (req, res) => {
+  // Check a CSV of historical paper log entries without saving anything
+  app.post("/api/entries/import/preview", requirePermission(Permissions.OWN_LOG), async (req, res) => {
     try {
-      const { entryId } = req.params;
-      const userId = req.session.userId!;
-
-      // Get entry
-      const entry = await storage.getEntry(parseInt(entryId));
-      if (!entry) {
-        return res.status(404).json({ message: "Entry not found" });
+      if (typeof req.body.csv !== "string") {
+        return res.status(400).json({ message: "CSV text is required" });
       }
 
-      // Check if entry belongs to user
-      if (entry.userId !== userId) {
-        return res
-          .status(403)
-          .json({ message: "Unauthorized: Entry does not belong to you" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Check if entry is already verified
-      if (entry.verified) {
-        return res.status(400).json({ message: "Entry already verified" });
+      const { rows, error } = validateImport(
+        req.body.csv,
+        user.id,
+        (await storage.getMethods()).filter((method) => method.active),
+      );
+      if (error) {
+        return res.status(400).json({ message: error });
       }
 
-      // Get supervisor
-      const { supervisorId } = req.body;
-      if (!supervisorId) {
-        return res.status(400).json({ message: "Supervisor ID is required" });
-      }
+      await checkImportRows(user, rows);
+      res.json({ rows: rows.map(({ entry, ...row }) => row) });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error reading import file" });
+    }
+  });
 
-      const supervisor = await storage.getSupervisor(parseInt(supervisorId));
-      if (!supervisor) {
-        return res.status(404).json({ message: "Supervisor not found" });
+  // Import a CSV of historical paper log entries; nothing is saved unless every row is valid
+  app.post("/api/entries/import", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      if (typeof req.body.csv !== "string") {
+        return res.status(400).json({ message: "CSV text is required" });
       }
 
-      // Check if supervisor belongs to user
-      if (supervisor.userId !== userId) {
-        return res
-          .status(403)
-          .json({ message: "Unauthorized: Supervisor does not belong to you" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Generate verification token
-      const verificationToken = randomUUID();
-
-      // Update entry with verification token
-      await db
-        .update(entries)
-        .set({ verificationToken })
-        .where(eq(entries.id, entry.id));
-
-      // Get user data
-      const user = await storage.getUser(userId);
-
-      // Create verification URL
-      const baseUrl = getBaseUrl();
-      const verificationUrl = `${baseUrl}/verify/${verificationToken}`;
-
-      // Log verification URL for debugging
-      console.log("-------------------------------------------------");
-      console.log(
-        "VERIFICATION LINK (For testing since email is not working):",
+      const { rows, error } = validateImport(
+        req.body.csv,
+        user.id,
+        (await storage.getMethods()).filter((method) => method.active),
       );
-      console.log(verificationUrl);
-      console.log("-------------------------------------------------\n");
-
-      // Send verification email using SendGrid
-      const emailSent = await sendVerificationRequest(supervisor, user!, entry);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
 
-      if (!emailSent) {
-        console.log(
-          "Email delivery failed, but verification URL is available in logs above",
-        );
+      // The same rules as manual entry: errors stop the import, warnings are saved as flags
+      const issues = await checkImportRows(user, rows);
+      const invalidRows = rows.filter((row) => row.errors.length > 0);
+      if (invalidRows.length > 0) {
+        return res.status(400).json({
+          message: `${invalidRows.length} row(s) have errors`,
+          rows: rows.map(({ entry, ...row }) => row),
+        });
       }
 
-      res.json({
-        message: "Verification request sent",
-        supervisor,
-        verificationUrl,
-      });
+      const imported = await storage.importEntries(
+        rows.map((row, i) => ({ ...row.entry!, flags: ruleFlags(issues[i]) })),
+      );
+      res.status(201).json(imported);
     } catch (error) {
       console.error(error);
-      res.status(500).json({ message: "Error sending verification request" });
+      res.status(500).json({ message: "Error importing entries" });
     }
   });
 
-  // Define routes both with and without the /api prefix to handle both frontend and email links
-  app.get(["/api/verify/:token", "/verify/:token"], async (req, res) => {
+  // Update one of the user's own unverified entries
+  app.patch("/api/entries/:id", requirePermission(Permissions.OWN_LOG), async (req, res) => {
     try {
-      const { token } = req.params;
-
-      // Get entry by verification token
-      const entry = await storage.getEntryByVerificationToken(token);
+      const entry = await storage.getEntry(parseInt(req.params.id));
       if (!entry) {
-        return res.status(404).json({ message: "Invalid verification token" });
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
+      // Check if entry belongs to user
+      if (entry.userId !== req.session.userId) {
+        return res
+          .status(403)
+          .json({ message: "Unauthorized: Entry does not belong to you" });
       }
 
-      // Check if entry is already verified
       if (entry.verified) {
-        return res.status(400).json({ message: "Entry already verified" });
+        return res
+          .status(400)
+          .json({ message: "Verified entries cannot be edited" });
       }
 
-      // Get user and supervisors
-      const user = await storage.getUser(entry.userId);
-      const supervisors = await storage.getSupervisors(entry.userId);
+      const parsedData = withLineTotals(
+        updateEntrySchema.parse({
+          ...req.body,
+          date: req.body.date ? new Date(req.body.date) : undefined,
+        }),
+      );
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || !(await isUsableJob(user, parsedData.jobId))) {
+        return res.status(400).json(jobNotFoundError);
+      }
+      // An entry already logged under a retired method can keep it
+      const currentMethods = entryMethodCodes([entry]);
+      const newMethods = (
+        parsedData.lines ?? (parsedData.method ? [{ method: parsedData.method }] : [])
+      )
+        .map((line) => line.method)
+        .filter((code) => !currentMethods.includes(code));
+      if (!(await areActiveMethods(newMethods))) {
+        return res.status(400).json(inactiveMethodError);
+      }
 
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const edited = { ...entry, ...parsedData };
+      const issues = await checkEntryRules(user, [edited], entry.id);
+      const error = ruleError(issues);
+      if (error) {
+        return res.status(400).json(error);
       }
 
-      res.json({ entry, user, supervisors });
+      // Any verification link already sent for this entry stops working
+      const updatedEntry = await storage.updateEntry(entry.id, {
+        ...parsedData,
+        flags: ruleFlags(issues[0]),
+      });
+
+      res.json(updatedEntry);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid entry data",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error updating entry" });
+    }
+  });
+
+  // Delete one of the user's own unverified entries
+  app.delete("/api/entries/:id", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const entry = await storage.getEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
+      // Check if entry belongs to user
+      if (entry.userId !== req.session.userId) {
+        return res
+          .status(403)
+          .json({ message: "Unauthorized: Entry does not belong to you" });
+      }
+
+      if (entry.verified) {
+        return res
+          .status(400)
+          .json({ message: "Verified entries cannot be deleted" });
+      }
+
+      await storage.deleteEntry(entry.id);
+
+      res.json({ message: "Entry deleted successfully" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error deleting entry" });
+    }
+  });
+
+  // Review history of one of the user's own entries
+  app.get("/api/entries/:id/history", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const entry = await storage.getEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
+      // Check if entry belongs to user
+      if (entry.userId !== req.session.userId) {
+        return res
+          .status(403)
+          .json({ message: "Unauthorized: Entry does not belong to you" });
+      }
+
+      const history = await storage.getEntryHistory(entry.id);
+      res.json(history);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching entry history" });
+    }
+  });
+
+  // Check that a verified entry still matches the signature made when it was verified
+  app.get("/api/entries/:id/signature", requirePermission(Permissions.PROFILE), async (req, res) => {
+    try {
+      const entry = await storage.getEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
+      // Anyone who can read every entry in the owner's organization, such as auditors, may check it
+      if (entry.userId !== req.session.userId) {
+        const scope = await getAdminScope(req);
+        const owner = await storage.getUser(entry.userId);
+        if (
+          !scope ||
+          !owner ||
+          !hasPermission(scope.actor, Permissions.READ_ENTRIES) ||
+          !isInScope(scope, owner)
+        ) {
+          return res
+            .status(403)
+            .json({ message: "Unauthorized: Entry does not belong to you" });
+        }
+      }
+
+      if (!entry.verified || !entry.signature) {
+        return res.status(404).json({ message: "Entry has not been signed" });
+      }
+
+      res.json({
+        entryId: entry.id,
+        valid: checkEntrySignature(entry),
+        algorithm: SIGNATURE_ALGORITHM,
+        keyId: entry.signatureKeyId,
+        currentKeyId: signingKeyId,
+        signature: entry.signature,
+        payload: signedPayload(entry),
+        publicKey: signingPublicKey,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error checking entry signature" });
+    }
+  });
+
+  // Snapshot a user's verified entries under a new document ID and send them as the OJT log PDF
+  const sendLogPdf = async (res: Response, user: User) => {
+    const verifiedEntries = (await storage.getEntries(user.id)).filter(
+      (entry) => entry.verified,
+    );
+    if (verifiedEntries.length === 0) {
+      return res
+        .status(400)
+        .json({ message: "At least one verified entry is needed to export" });
+    }
+
+    const exportedLog = await storage.createExportedLog(
+      user.id,
+      generateDocumentId(),
+      buildExportSnapshot(user, verifiedEntries, await storage.getMethods()),
+    );
+
+    const pdf = await renderOjtLogPdf({
+      documentId: exportedLog.documentId,
+      verificationUrl: `${getBaseUrl()}/documents/${exportedLog.documentId}`,
+      issuedAt: exportedLog.createdAt ?? new Date(),
+      snapshot: exportedLog.snapshot,
+    });
+
+    const name = (user.name || "User").replace(/[^\w-]+/g, "_");
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="OJT_Log_${name}_${exportedLog.documentId}.pdf"`,
+    );
+    res.send(pdf);
+  };
+
+  // Send entries matching the export query as a CSV or XLSX download
+  const sendEntryExport = async (
+    req: Request,
+    res: Response,
+    owner: Pick<EntryExportFilters, "userId" | "organizationId">,
+  ) => {
+    try {
+      const query = entryExportQuerySchema.parse(req.query);
+      const rows = await storage.getEntriesForExport({
+        ...owner,
+        from: query.from,
+        to: query.to,
+        methods: query.methods,
+      });
+      const methods = await storage.getMethods();
+
+      const filename = `OJT_Entries_${new Date().toISOString().split("T")[0]}.${query.format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+      if (query.format === "xlsx") {
+        res.setHeader(
+          "Content-Type",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        );
+        res.send(await renderEntriesXlsx(rows, methods));
+      } else {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.send(renderEntriesCsv(rows, methods));
+      }
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid export options",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error exporting entries" });
+    }
+  };
+
+  // Export the user's entries as CSV or XLSX
+  app.get("/api/entries/export", requirePermission(Permissions.OWN_LOG), (req, res) =>
+    sendEntryExport(req, res, { userId: req.session.userId! }),
+  );
+
+  // Export the user's verified entries as the OJT log PDF
+  app.get("/api/entries/export.pdf", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await sendLogPdf(res, user);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error exporting entries" });
+    }
+  });
+
+  // Public lookup of an exported log, so a printed copy can be checked against what was issued
+  app.get("/api/documents/:documentId", async (req, res) => {
+    try {
+      const exportedLog = await storage.getExportedLog(
+        req.params.documentId.trim().toUpperCase(),
+      );
+      if (!exportedLog) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.json({
+        documentId: exportedLog.documentId,
+        verificationUrl: `${getBaseUrl()}/documents/${exportedLog.documentId}`,
+        issuedAt: exportedLog.createdAt,
+        snapshot: exportedLog.snapshot,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching document" });
+    }
+  });
+
+  // Jobs catalog that entries are booked against
+  app.get("/api/jobs", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const jobs = await storage.getJobsForUser(user);
+      res.json(jobs);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching jobs" });
+    }
+  });
+
+  // New jobs are shared with the creator's organization
+  app.post("/api/jobs", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const jobData = insertJobSchema.parse({
+        ...req.body,
+        workOrder: req.body.workOrder || null,
+        startDate: req.body.startDate || null,
+        endDate: req.body.endDate || null,
+        organizationId: user.organizationId,
+        createdBy: user.id,
+      });
+      const job = await storage.createJob(jobData);
+      res.status(201).json(job);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid job data",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error creating job" });
+    }
+  });
+
+  // Certification records
+  app.get("/api/certifications", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const certifications = await storage.getCertifications(
+        req.session.userId!,
+      );
+      res.json(certifications);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching certifications" });
+    }
+  });
+
+  app.post("/api/certifications", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const certificationData = insertCertificationSchema.parse({
+        ...req.body,
+        userId: req.session.userId!,
+      });
+      const certification =
+        await storage.createCertification(certificationData);
+      res.status(201).json(certification);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid certification data",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error creating certification" });
+    }
+  });
+
+  app.patch("/api/certifications/:id", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const certification = await storage.getCertification(
+        parseInt(req.params.id),
+      );
+      if (!certification) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      if (certification.userId !== req.session.userId) {
+        return res.status(403).json({
+          message: "Unauthorized: Certification does not belong to you",
+        });
+      }
+
+      const certificationData = updateCertificationSchema.parse(req.body);
+      const updatedCertification = await storage.updateCertification(
+        certification.id,
+        certificationData,
+      );
+      res.json(updatedCertification);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid certification data",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error updating certification" });
+    }
+  });
+
+  app.delete("/api/certifications/:id", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const certification = await storage.getCertification(
+        parseInt(req.params.id),
+      );
+      if (!certification) {
+        return res.status(404).json({ message: "Certification not found" });
+      }
+
+      if (certification.userId !== req.session.userId) {
+        return res.status(403).json({
+          message: "Unauthorized: Certification does not belong to you",
+        });
+      }
+
+      await storage.deleteCertification(certification.id);
+      res.json({ message: "Certification deleted successfully" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error deleting certification" });
+    }
+  });
+
+  // NDT method catalog, including inactive methods so older entries still show their labels.
+  // Public because the verification pages show methods to supervisors who aren't signed in.
+  app.get("/api/methods", async (req, res) => {
+    try {
+      const methods = await storage.getMethods();
+      res.json(methods);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching methods" });
+    }
+  });
+
+  // Certification requirements catalog, optionally for one scheme
+  app.get("/api/certification-requirements", requirePermission(Permissions.PROFILE), async (req, res) => {
+    try {
+      const scheme =
+        typeof req.query.scheme === "string" ? req.query.scheme : undefined;
+      const requirements = await storage.getCertificationRequirements(scheme);
+      res.json(requirements);
+    } catch (error) {
+      console.error(error);
+      res
+        .status(500)
+        .json({ message: "Error fetching certification requirements" });
+    }
+  });
+
+  // Supervisor routes
+  app.get("/api/supervisors", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const supervisors = await storage.getSupervisors(req.session.userId!);
+      res.json(supervisors);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching supervisors" });
+    }
+  });
+
+  app.post("/api/supervisors", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const supervisorData = {
+        ...req.body,
+        userId: req.session.userId!,
+      };
+
+      const parsedData = insertSupervisorSchema.parse(supervisorData);
+      const newSupervisor = await storage.createSupervisor(parsedData);
+
+      res.status(201).json(newSupervisor);
+    } catch (error) {
+      console.error(error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid supervisor data",
+          errors: error.errors,
+        });
+      }
+      res.status(500).json({ message: "Error creating supervisor" });
+    }
+  });
+
+  // Verification routes
+  // Send one verification request covering one or more of the user's entries
+  const handleVerifyRequest = async (
+    req: Request,
+    res: Response,
+    entryIds: number[],
+  ) => {
+    try {
+      const userId = req.session.userId!;
+
+      if (entryIds.length === 0 || entryIds.some((id) => isNaN(id))) {
+        return res
+          .status(400)
+          .json({ message: "At least one valid entry ID is required" });
+      }
+
+      // Get entries
+      const requestedEntries = [];
+      for (const entryId of Array.from(new Set(entryIds))) {
+        const entry = await storage.getEntry(entryId);
+        if (!entry) {
+          return res.status(404).json({ message: `Entry ${entryId} not found` });
+        }
+
+        // Check if entry belongs to user
+        if (entry.userId !== userId) {
+          return res
+            .status(403)
+            .json({ message: "Unauthorized: Entry does not belong to you" });
+        }
+
+        // Check if entry is already verified
+        if (entry.verified) {
+          return res
+            .status(400)
+            .json({ message: `Entry ${entryId} is already verified` });
+        }
+
+        requestedEntries.push(entry);
+      }
+
+      // Get supervisor
+      const { supervisorId } = req.body;
+      if (!supervisorId) {
+        return res.status(400).json({ message: "Supervisor ID is required" });
+      }
+
+      const supervisor = await storage.getSupervisor(parseInt(supervisorId));
+      if (!supervisor) {
+        return res.status(404).json({ message: "Supervisor not found" });
+      }
+
+      // Check if supervisor belongs to user
+      if (supervisor.userId !== userId) {
+        return res
+          .status(403)
+          .json({ message: "Unauthorized: Supervisor does not belong to you" });
+      }
+
+      // Generate verification token and attach the entries to the new request,
+      // which revokes any earlier link left without entries
+      const verificationToken = generateToken();
+      const expiresAt = add(new Date(), { days: VERIFICATION_LINK_TTL_DAYS });
+      const request = await storage.createVerificationRequest(
+        userId,
+        supervisor.id,
+        hashToken(verificationToken),
+        expiresAt,
+        requestedEntries.map((entry) => entry.id),
+      );
+
+      // Get user data
+      const user = await storage.getUser(userId);
+
+      // Create verification URL
+      const baseUrl = getBaseUrl();
+      const verificationUrl = `${baseUrl}/verify/${verificationToken}`;
+
+      // Send verification email using SendGrid
+      const delivery = await sendVerificationRequest(
+        supervisor,
+        user!,
+        requestedEntries,
+        verificationToken,
+        expiresAt,
+        request.id,
+      );
+
+      if (delivery !== "sent") {
+        console.log(
+          `Verification email for request ${request.id} was not sent${
+            delivery === "queued" ? " yet, it will be retried" : ""
+          }${isProduction ? "" : "; the link is in the log above"}`,
+        );
+      }
+
+      res.json({
+        message: "Verification request sent",
+        supervisor,
+        verificationUrl,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error sending verification request" });
+    }
+  };
+
+  app.post("/api/verify-request", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    const entryIds = Array.isArray(req.body.entryIds)
+      ? req.body.entryIds.map((id: unknown) => parseInt(String(id)))
+      : [];
+    await handleVerifyRequest(req, res, entryIds);
+  });
+
+  app.post("/api/verify-request/:entryId", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    await handleVerifyRequest(req, res, [parseInt(req.params.entryId)]);
+  });
+
+  // Cancel a pending verification request so its link stops working
+  app.delete("/api/verification-requests/:id", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const request = await storage.getVerificationRequest(
+        parseInt(req.params.id),
+      );
+      if (!request) {
+        return res
+          .status(404)
+          .json({ message: "Verification request not found" });
+      }
+
+      // Check if request belongs to user
+      if (request.userId !== req.session.userId) {
+        return res.status(403).json({
+          message: "Unauthorized: Verification request does not belong to you",
+        });
+      }
+
+      await storage.revokeVerificationRequest(request.id);
+
+      res.json({ message: "Verification request cancelled" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error cancelling verification request" });
+    }
+  });
+
+  // Reminders sent for each of the trainee's open verification requests
+  app.get("/api/verification-requests/reminders", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const statuses = await storage.getVerificationReminderStatuses(req.session.userId!);
+      res.json(statuses);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching verification reminders" });
+    }
+  });
+
+  // Whether the email for each of the trainee's open verification requests has gone out
+  app.get("/api/verification-requests/delivery", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const statuses = await storage.getRequestEmailStatuses(req.session.userId!);
+      res.json(statuses);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching email delivery status" });
+    }
+  });
+
+  // Try again to send a verification request whose email failed
+  app.post("/api/verification-requests/:id/resend", requirePermission(Permissions.OWN_LOG), async (req, res) => {
+    try {
+      const request = await storage.getVerificationRequest(
+        parseInt(req.params.id),
+      );
+      if (!request) {
+        return res
+          .status(404)
+          .json({ message: "Verification request not found" });
+      }
+
+      // Check if request belongs to user
+      if (request.userId !== req.session.userId) {
+        return res.status(403).json({
+          message: "Unauthorized: Verification request does not belong to you",
+        });
+      }
+
+      if (request.usedAt || request.revokedAt || new Date(request.expiresAt) < new Date()) {
+        return res.status(410).json({
+          message: "This verification request is no longer open; send a new one instead",
+        });
+      }
+
+      const statuses = await storage.getRequestEmailStatuses(request.userId);
+      const email = statuses.find(({ verificationRequestId }) => verificationRequestId === request.id);
+      if (email?.status !== "failed") {
+        return res.status(409).json({ message: "Only a failed email can be resent" });
+      }
+
+      const delivery = await retryFailedEmail(email.emailId);
+      res.json({
+        message: delivery === "sent" ? "Verification email sent" : "Sending failed again, it will be retried",
+        sent: delivery === "sent",
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error resending verification email" });
+    }
+  });
+
+  const verificationLinkErrors = {
+    invalid: { status: 404, message: "Invalid verification link" },
+    expired: { status: 410, message: "This verification link has expired" },
+    revoked: {
+      status: 410,
+      message:
+        "This verification link was cancelled or replaced by a newer request",
+    },
+    used: {
+      status: 410,
+      message: "This verification link has already been used",
+    },
+  };
+
+  // Look up a verification request by its emailed token and check it is still usable
+  const getVerificationRequest = async (
+    token: string,
+  ): Promise<
+    | { status: keyof typeof verificationLinkErrors }
+    | { status: "valid"; request: VerificationRequest; entries: Entry[] }
+  > => {
+    const request = await storage.getVerificationRequestByTokenHash(
+      hashToken(token),
+    );
+    if (!request) {
+      return { status: "invalid" };
+    }
+    if (request.revokedAt) {
+      return { status: "revoked" };
+    }
+    if (request.usedAt) {
+      return { status: "used" };
+    }
+    if (request.expiresAt < new Date()) {
+      return { status: "expired" };
+    }
+
+    const requestEntries = await storage.getEntriesByVerificationRequest(
+      request.id,
+    );
+    if (requestEntries.length === 0) {
+      return { status: "revoked" };
+    }
+
+    return { status: "valid", request, entries: requestEntries };
+  };
+
+  // Only what the verifier needs to see about each entry
+  const toVerifierEntry = (entry: Entry) => ({
+    id: entry.id,
+    date: entry.date,
+    location: entry.location,
+    method: entry.method,
+    hours: entry.hours,
+    lines: entry.lines,
+    verified: entry.verified,
+    rejected: entry.rejected,
+  });
+
+  const toVerifierTechnician = (user: User) => ({
+    name: user.name,
+    employeeNumber: user.employeeNumber,
+  });
+
+  // Define routes both with and without the /api prefix to handle both frontend and email links
+  app.get(["/api/verify/:token", "/verify/:token"], async (req, res) => {
+    try {
+      const { token } = req.params;
+
+      // Get entries by verification token
+      const verification = await getVerificationRequest(token);
+      if (verification.status !== "valid") {
+        const { status, message } = verificationLinkErrors[verification.status];
+        return res.status(status).json({ message, reason: verification.status });
+      }
+
+      // Get user and the supervisor the request was sent to
+      const user = await storage.getUser(verification.request.userId);
+      const supervisor = await storage.getSupervisor(
+        verification.request.supervisorId,
+      );
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({
+        technician: toVerifierTechnician(user),
+        supervisorName: supervisor?.name,
+        supervisorEmail: supervisor ? maskEmail(supervisor.email) : undefined,
+        entries: verification.entries.map(toVerifierEntry),
+        expiresAt: verification.request.expiresAt,
+      });
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Error processing verification" });
     }
   });
 
-  app.post(["/api/verify/:token", "/verify/:token"], async (req, res) => {
+  // Pick the selected entries from those still awaiting a decision, or all of them when none are given
+  const selectPendingEntries = (
+    requestEntries: Entry[],
+    entryIds: unknown,
+  ): { entries: Entry[]; pendingCount: number } | { error: string } => {
+    const pendingEntries = requestEntries.filter(
+      (entry) => !entry.verified && !entry.rejected,
+    );
+    if (pendingEntries.length === 0) {
+      return { error: "All entries in this request have already been reviewed" };
+    }
+
+    if (!Array.isArray(entryIds)) {
+      return { entries: pendingEntries, pendingCount: pendingEntries.length };
+    }
+
+    const selectedIds = entryIds.map((id: unknown) => parseInt(String(id)));
+    const selectedEntries = pendingEntries.filter((entry) =>
+      selectedIds.includes(entry.id),
+    );
+
+    if (selectedEntries.length !== selectedIds.length) {
+      return { error: "Selected entries are not pending in this request" };
+    }
+    if (selectedEntries.length === 0) {
+      return { error: "Select at least one entry" };
+    }
+
+    return { entries: selectedEntries, pendingCount: pendingEntries.length };
+  };
+
+  // Check the code emailed to the supervisor, counting wrong guesses against the request
+  const checkVerificationCode = async (
+    request: VerificationRequest,
+    code: unknown,
+  ): Promise<string | undefined> => {
+    if (!request.codeHash || !request.codeExpiresAt) {
+      return "Request a verification code first";
+    }
+    if ((request.codeAttempts ?? 0) >= VERIFICATION_CODE_MAX_ATTEMPTS) {
+      return "Too many incorrect codes. Request a new code.";
+    }
+    if (request.codeExpiresAt < new Date()) {
+      return "This verification code has expired. Request a new code.";
+    }
+    if (typeof code !== "string" || hashToken(code.trim()) !== request.codeHash) {
+      await storage.recordVerificationCodeAttempt(request.id);
+      return "Incorrect verification code";
+    }
+    return undefined;
+  };
+
+  // Email a one-time code to the supervisor the link was sent to, so whoever holds the link
+  // has to prove they can read that inbox before signing
+  app.post(
+    ["/api/verify/:token/code", "/verify/:token/code"],
+    async (req, res) => {
+      try {
+        const verification = await getVerificationRequest(req.params.token);
+        if (verification.status !== "valid") {
+          const { status, message } =
+            verificationLinkErrors[verification.status];
+          return res
+            .status(status)
+            .json({ message, reason: verification.status });
+        }
+
+        const { request } = verification;
+        if (request.codeExpiresAt) {
+          const issuedAt =
+            request.codeExpiresAt.getTime() -
+            VERIFICATION_CODE_TTL_MINUTES * 60 * 1000;
+          if (Date.now() - issuedAt < VERIFICATION_CODE_RESEND_SECONDS * 1000) {
+            return res.status(429).json({
+              message: "Please wait a minute before requesting another code",
+            });
+          }
+        }
+
+        const supervisor = await storage.getSupervisor(request.supervisorId);
+        const user = await storage.getUser(request.userId);
+        if (!supervisor || !user) {
+          return res.status(404).json({ message: "Supervisor not found" });
+        }
+
+        const code = generateVerificationCode();
+        const expiresAt = add(new Date(), {
+          minutes: VERIFICATION_CODE_TTL_MINUTES,
+        });
+        await storage.setVerificationCode(request.id, hashToken(code), expiresAt);
+
+        const delivery = await sendVerificationCode(
+          supervisor,
+          user,
+          code,
+          expiresAt,
+        );
+
+        res.json({
+          message: `Code sent to ${maskEmail(supervisor.email)}`,
+          expiresAt,
+          // Local stub for development without an email provider
+          ...(delivery !== "sent" && app.get("env") === "development" ? { code } : {}),
+        });
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Error sending verification code" });
+      }
+    },
+  );
+
+  app.post(["/api/verify/:token", "/verify/:token"], async (req, res) => {
+    try {
+      const { token } = req.params;
+      const { supervisorName, entryIds, code } = req.body;
+
+      if (!supervisorName) {
+        return res.status(400).json({ message: "Supervisor name is required" });
+      }
+
+      // Get entries by verification token
+      const verification = await getVerificationRequest(token);
+      if (verification.status !== "valid") {
+        const { status, message } = verificationLinkErrors[verification.status];
+        return res.status(status).json({ message, reason: verification.status });
+      }
+
+      const selection = selectPendingEntries(verification.entries, entryIds);
+      if ("error" in selection) {
+        return res.status(400).json({ message: selection.error });
+      }
+
+      // The supervisor the link was emailed to is recorded as the verifier's identity
+      const supervisor = await storage.getSupervisor(
+        verification.request.supervisorId,
+      );
+      const user = await storage.getUser(verification.request.userId);
+      if (!supervisor || !user) {
+        return res.status(404).json({ message: "Supervisor not found" });
+      }
+
+      const codeError = await checkVerificationCode(verification.request, code);
+      if (codeError) {
+        return res.status(403).json({ message: codeError });
+      }
+
+      const levelError = signingLevelError(supervisor, user, selection.entries);
+      if (levelError) {
+        return res.status(403).json({ message: levelError });
+      }
+
+      // Record each decision separately
+      const verifier = verifierContext(req, supervisor.email);
+      const verifiedEntries = [];
+      for (const entry of selection.entries) {
+        verifiedEntries.push(
+          await storage.verifyEntry(entry.id, supervisorName, verifier),
+        );
+      }
+
+      // The link is spent once every entry on it has been decided
+      if (verifiedEntries.length === selection.pendingCount) {
+        await storage.completeVerificationRequest(verification.request.id);
+      }
+
+      // Send confirmation email to user
+      await sendVerificationConfirmation(user, verifiedEntries, supervisorName);
+
+      res.json({
+        message: "Entries verified successfully",
+        technician: toVerifierTechnician(user),
+        entries: verifiedEntries.map(toVerifierEntry),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error verifying entry" });
+    }
+  });
+
+  app.post(
+    ["/api/verify/:token/reject", "/verify/:token/reject"],
+    async (req, res) => {
+      try {
+        const { token } = req.params;
+        const { supervisorName, comment, entryIds, code } = req.body;
+
+        if (!supervisorName) {
+          return res
+            .status(400)
+            .json({ message: "Supervisor name is required" });
+        }
+
+        if (!comment || typeof comment !== "string" || !comment.trim()) {
+          return res
+            .status(400)
+            .json({ message: "A reason is required to reject entries" });
+        }
+
+        // Get entries by verification token
+        const verification = await getVerificationRequest(token);
+        if (verification.status !== "valid") {
+          const { status, message } =
+            verificationLinkErrors[verification.status];
+          return res
+            .status(status)
+            .json({ message, reason: verification.status });
+        }
+
+        const selection = selectPendingEntries(verification.entries, entryIds);
+        if ("error" in selection) {
+          return res.status(400).json({ message: selection.error });
+        }
+
+        const supervisor = await storage.getSupervisor(
+          verification.request.supervisorId,
+        );
+        if (!supervisor) {
+          return res.status(404).json({ message: "Supervisor not found" });
+        }
+
+        const codeError = await checkVerificationCode(
+          verification.request,
+          code,
+        );
+        if (codeError) {
+          return res.status(403).json({ message: codeError });
+        }
+
+        // Record each decision separately
+        const verifier = verifierContext(req, supervisor.email);
+        const rejectedEntries = [];
+        for (const entry of selection.entries) {
+          rejectedEntries.push(
+            await storage.rejectEntry(
+              entry.id,
+              supervisorName,
+              comment.trim(),
+              verifier,
+            ),
+          );
+        }
+
+        // The link is spent once every entry on it has been decided
+        if (rejectedEntries.length === selection.pendingCount) {
+          await storage.completeVerificationRequest(verification.request.id);
+        }
+
+        // Let the trainee know what to correct
+        const user = await storage.getUser(verification.request.userId);
+        if (user) {
+          await sendVerificationRejection(
+            user,
+            rejectedEntries,
+            supervisorName,
+            comment.trim(),
+          );
+        }
+
+        res.json({
+          message: "Entries rejected",
+          entries: rejectedEntries.map(toVerifierEntry),
+        });
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Error rejecting entries" });
+      }
+    },
+  );
+
+  // Supervisor account routes
+  const unverifiedEmailError = {
+    message: "Confirm your email address first by logging in with a magic link",
+  };
+
+  // Claim the supervisor contacts trainees have listed under the signed-in email
+  app.post("/api/supervisor/claim", requirePermission(Permissions.PROFILE), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Registering doesn't check the address, so trainees' contacts only go to a proven inbox
+      if (!user.emailVerifiedAt) {
+        return res.status(403).json(unverifiedEmailError);
+      }
+
+      if ((await storage.countSupervisorContacts(user.email)) === 0) {
+        return res.status(404).json({
+          message: `No trainee has listed ${user.email} as a supervisor yet`,
+        });
+      }
+
+      const updatedUser = await storage.claimSupervisorAccount(
+        user.id,
+        user.email,
+      );
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error claiming supervisor account" });
+    }
+  });
+
+  app.get("/api/supervisor/requests", requirePermission(Permissions.SIGN_ENTRIES), async (req, res) => {
     try {
-      const { token } = req.params;
-      const { supervisorName } = req.body;
+      const pending = await storage.getSupervisorPendingRequests(
+        req.session.userId!,
+      );
+      res.json(pending);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching pending requests" });
+    }
+  });
 
-      if (!supervisorName) {
-        return res.status(400).json({ message: "Supervisor name is required" });
+  app.get("/api/supervisor/history", requirePermission(Permissions.SIGN_ENTRIES), async (req, res) => {
+    try {
+      const decisions = await storage.getSupervisorDecisions(
+        req.session.userId!,
+      );
+      res.json(decisions);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error fetching signing history" });
+    }
+  });
+
+  // Decide on selected pending entries across all requests addressed to the supervisor,
+  // completing each request whose entries have all been decided and notifying its trainee
+  const decideAsSupervisor = async (
+    req: Request,
+    res: Response,
+    decision: "verify" | "reject",
+  ) => {
+    try {
+      const supervisorUser = await storage.getUser(req.session.userId!);
+      if (!supervisorUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!supervisorUser.emailVerifiedAt) {
+        return res.status(403).json(unverifiedEmailError);
       }
 
-      // Get entry by verification token
-      const entry = await storage.getEntryByVerificationToken(token);
-      if (!entry) {
-        return res.status(404).json({ message: "Invalid verification token" });
+      const { entryIds, comment } = req.body;
+      if (!Array.isArray(entryIds) || entryIds.length === 0) {
+        return res.status(400).json({ message: "Select at least one entry" });
+      }
+      if (
+        decision === "reject" &&
+        (!comment || typeof comment !== "string" || !comment.trim())
+      ) {
+        return res
+          .status(400)
+          .json({ message: "A reason is required to reject entries" });
       }
 
-      // Check if entry is already verified
-      if (entry.verified) {
-        return res.status(400).json({ message: "Entry already verified" });
+      const selectedIds = entryIds.map((id: unknown) => parseInt(String(id)));
+      const pending = await storage.getSupervisorPendingRequests(
+        supervisorUser.id,
+      );
+      const selectedCount = pending
+        .flatMap((row) => row.entries)
+        .filter((entry) => selectedIds.includes(entry.id)).length;
+      if (selectedCount !== selectedIds.length) {
+        return res.status(400).json({
+          message: "Selected entries are not pending verification by you",
+        });
       }
 
-      // Verify entry
-      const verifiedEntry = await storage.verifyEntry(entry.id, supervisorName);
+      // Load each affected request's trainee and contact entry, and check the supervisor's
+      // level on every one before signing anything
+      const batches = [];
+      for (const { request, entries: requestEntries } of pending) {
+        const selected = requestEntries.filter((entry) =>
+          selectedIds.includes(entry.id),
+        );
+        if (selected.length === 0) continue;
 
-      // Send confirmation email to user
-      const user = await storage.getUser(entry.userId);
-      if (user) {
-        await sendVerificationConfirmation(user, verifiedEntry, supervisorName);
+        const supervisor = await storage.getSupervisor(request.supervisorId);
+        const trainee = await storage.getUser(request.userId);
+        if (!supervisor || !trainee) {
+          return res.status(404).json({ message: "Supervisor not found" });
+        }
+
+        if (decision === "verify") {
+          const levelError = signingLevelError(supervisor, trainee, selected);
+          if (levelError) {
+            return res.status(403).json({ message: levelError });
+          }
+        }
+
+        batches.push({ request, requestEntries, selected, trainee });
+      }
+
+      const verifierName = supervisorUser.name || supervisorUser.email;
+      const verifier = verifierContext(req, supervisorUser.email);
+      const decided = [];
+
+      for (const { request, requestEntries, selected, trainee } of batches) {
+        const decidedEntries = [];
+        for (const entry of selected) {
+          decidedEntries.push(
+            decision === "verify"
+              ? await storage.verifyEntry(entry.id, verifierName, verifier)
+              : await storage.rejectEntry(
+                  entry.id,
+                  verifierName,
+                  comment.trim(),
+                  verifier,
+                ),
+          );
+        }
+
+        if (decidedEntries.length === requestEntries.length) {
+          await storage.completeVerificationRequest(request.id);
+        }
+
+        if (decision === "verify") {
+          await sendVerificationConfirmation(
+            trainee,
+            decidedEntries,
+            verifierName,
+          );
+        } else {
+          await sendVerificationRejection(
+            trainee,
+            decidedEntries,
+            verifierName,
+            comment.trim(),
+          );
+        }
+
+        decided.push(...decidedEntries);
       }
 
       res.json({
-        message: "Entry verified successfully",
-        entry: verifiedEntry,
+        message:
+          decision === "verify" ? "Entries verified successfully" : "Entries rejected",
+        entries: decided.map(toVerifierEntry),
       });
     } catch (error) {
       console.error(error);
-      res.status(500).json({ message: "Error verifying entry" });
+      res.status(500).json({
+        message:
+          decision === "verify" ? "Error verifying entries" : "Error rejecting entries",
+      });
     }
-  });
+  };
+
+  app.post("/api/supervisor/verify", requirePermission(Permissions.SIGN_ENTRIES), (req, res) =>
+    decideAsSupervisor(req, res, "verify"),
+  );
+
+  app.post("/api/supervisor/reject", requirePermission(Permissions.SIGN_ENTRIES), (req, res) =>
+    decideAsSupervisor(req, res, "reject"),
+  );
 
   // Admin routes
-  app.get("/api/admin/users", requireAdmin, async (req, res) => {
+  app.get("/api/admin/users", requirePermission(Permissions.READ_USERS), async (req, res) => {
     try {
-      const allUsers = await db.select().from(users);
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const allUsers = await storage.getUsers(scope.organizationId);
       // Remove sensitive information
       const sanitizedUsers = allUsers.map((user) => {
         const { password, resetToken, resetTokenExpiry, ...safeUser } = user;
@@ -658,9 +2262,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/entries", requireAdmin, async (req, res) => {
+  app.get("/api/admin/entries", requirePermission(Permissions.READ_ENTRIES), async (req, res) => {
     try {
-      const allEntries = await db.select().from(entries);
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const allEntries = await storage.getAllEntries(scope.organizationId);
       res.json(allEntries);
     } catch (error) {
       console.error("Error fetching entries:", error);
@@ -668,7 +2277,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/users/:id", requireAdmin, async (req, res) => {
+  // Jobs in the admin's organization, for reporting hours per job and client
+  app.get("/api/admin/jobs", requirePermission(Permissions.READ_ENTRIES), async (req, res) => {
+    try {
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const jobs = await storage.getJobs(scope.organizationId);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Error fetching jobs" });
+    }
+  });
+
+  // Export every user's entries in the organization as CSV or XLSX
+  app.get("/api/admin/entries/export", requirePermission(Permissions.READ_ENTRIES), async (req, res) => {
+    const scope = await getAdminScope(req);
+    if (!scope) {
+      return res.status(403).json(noOrganizationError);
+    }
+
+    await sendEntryExport(req, res, { organizationId: scope.organizationId });
+  });
+
+  // Export any user's verified entries as the OJT log PDF
+  app.get("/api/admin/users/:id/export.pdf", requirePermission(Permissions.READ_ENTRIES), async (req, res) => {
+    try {
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user || !isInScope(scope, user)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await sendLogPdf(res, user);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error exporting entries" });
+    }
+  });
+
+  // The weekly digest as the user would get it this week, whether or not they have opted in; ?format=text for the text variant
+  app.get("/api/admin/users/:id/digest", requirePermission(Permissions.READ_ENTRIES), async (req, res) => {
+    try {
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user || !isInScope(scope, user)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const digest = await renderDigest(user);
+      if (req.query.format === "text") {
+        return res.type("text/plain").send(digest.text);
+      }
+      res.send(digest.html);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Error previewing weekly digest" });
+    }
+  });
+
+  // Replace a user's roles; only global admins can grant or remove the admin role, and nobody
+  // can take away their own ability to manage users
+  app.patch("/api/admin/users/:id/roles", requirePermission(Permissions.MANAGE_USERS), async (req, res) => {
+    try {
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const target = await storage.getUser(parseInt(req.params.id));
+      if (!target || !isInScope(scope, target)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { roles } = z
+        .object({ roles: z.array(z.nativeEnum(Roles)).min(1, "At least one role is required") })
+        .parse(req.body);
+
+      if (
+        scope.organizationId !== undefined &&
+        (roles.includes(Roles.ADMIN) || target.roles.includes(Roles.ADMIN))
+      ) {
+        return res
+          .status(403)
+          .json({ message: "Only global admins can change the admin role" });
+      }
+
+      if (
+        target.id === scope.actor.id &&
+        !hasPermission({ roles }, Permissions.MANAGE_USERS)
+      ) {
+        return res
+          .status(400)
+          .json({ message: "You cannot remove your own user management access" });
+      }
+
+      const user = await storage.setUserRoles(target.id, Array.from(new Set(roles)));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password, resetToken, resetTokenExpiry, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid roles", errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: "Error updating roles" });
+    }
+  });
+
+  // Hours dated before a user's employment start are rejected by the entry rules
+  app.patch("/api/admin/users/:id/employment", requirePermission(Permissions.MANAGE_USERS), async (req, res) => {
+    try {
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const target = await storage.getUser(parseInt(req.params.id));
+      if (!target || !isInScope(scope, target)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { employmentStartDate } = z
+        .object({ employmentStartDate: z.coerce.date().nullable() })
+        .parse(req.body);
+
+      const user = await storage.setUserEmploymentStart(target.id, employmentStartDate);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password, resetToken, resetTokenExpiry, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid employment start date", errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: "Error updating employment start date" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requirePermission(Permissions.MANAGE_USERS), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
 
@@ -679,12 +2447,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .json({ message: "Cannot delete your own account" });
       }
 
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const target = await storage.getUser(userId);
+      if (!target || !isInScope(scope, target)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (
+        scope.organizationId !== undefined &&
+        target.roles.includes(Roles.ADMIN)
+      ) {
+        return res
+          .status(403)
+          .json({ message: "Only global admins can delete an admin" });
+      }
+
       // Delete user's entries first (cascade delete not automatic)
       await db.delete(entries).where(eq(entries.userId, userId));
 
+      // Delete user's verification requests
+      await db
+        .delete(verificationRequests)
+        .where(eq(verificationRequests.userId, userId));
+
       // Delete user's supervisors
       await db.delete(supervisors).where(eq(supervisors.userId, userId));
 
+      // Unlink the contacts other trainees listed under this account, leaving them as plain email contacts
+      await db
+        .update(supervisors)
+        .set({ accountId: null })
+        .where(eq(supervisors.accountId, userId));
+
+      // Delete user's exported logs
+      await db.delete(exportedLogs).where(eq(exportedLogs.userId, userId));
+
+      // Delete user's certifications
+      await db.delete(certifications).where(eq(certifications.userId, userId));
+
+      // Delete the jobs only this user could see; organization jobs outlive their creator
+      await db
+        .delete(jobs)
+        .where(and(eq(jobs.createdBy, userId), isNull(jobs.organizationId)));
+
       // Delete user
       const deletedUser = await db
         .delete(users)
@@ -702,10 +2510,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/entries/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/entries/:id", requirePermission(Permissions.DELETE_ENTRIES), async (req, res) => {
     try {
       const entryId = parseInt(req.params.id);
 
+      const scope = await getAdminScope(req);
+      if (!scope) {
+        return res.status(403).json(noOrganizationError);
+      }
+
+      const entry = await storage.getEntry(entryId);
+      const owner = entry ? await storage.getUser(entry.userId) : undefined;
+      if (!owner || !isInScope(scope, owner)) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+
       // Delete entry
       const deletedEntry = await db
         .delete(entries)
@@ -723,6 +2542,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organizations visible to the signed-in admin: all of them for global admins, otherwise their own
+  app.get(
+    "/api/admin/organizations",
+    requirePermission(Permissions.READ_USERS),
+    async (req, res) => {
+      try {
+        const scope = await getAdminScope(req);
+        if (!scope) {
+          return res.status(403).json(noOrganizationError);
+        }
+
+        const allOrganizations = await storage.getOrganizations();
+        res.json(
+          allOrganizations.filter(
+            (organization) =>
+              scope.organizationId === undefined ||
+              organization.id === scope.organizationId,
+          ),
+        );
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Error fetching organizations" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/admin/organizations",
+    requirePermission(Permissions.MANAGE_ORGANIZATIONS),
+    async (req, res) => {
+      try {
+        const organizationData = insertOrganizationSchema.parse(req.body);
+        const organization =
+          await storage.createOrganization(organizationData);
+        res.status(201).json(organization);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid organization data",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: "Error creating organization" });
+      }
+    },
+  );
+
+  // Only empty organizations can be deleted, so nobody is silently moved out of one
+  app.delete(
+    "/api/admin/organizations/:id",
+    requirePermission(Permissions.MANAGE_ORGANIZATIONS),
+    async (req, res) => {
+      try {
+        const organizationId = parseInt(req.params.id);
+        const members = await storage.getUsers(organizationId);
+        if (members.length > 0) {
+          return res.status(400).json({
+            message: "Move this organization's members elsewhere before deleting it",
+          });
+        }
+
+        await storage.deleteOrganization(organizationId);
+        res.json({ message: "Organization deleted" });
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Error deleting organization" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/admin/users/:id/organization",
+    requirePermission(Permissions.MANAGE_ORGANIZATIONS),
+    async (req, res) => {
+      try {
+        const { organizationId } = z
+          .object({ organizationId: z.number().int().nullable() })
+          .parse(req.body);
+
+        if (
+          organizationId !== null &&
+          !(await storage.getOrganization(organizationId))
+        ) {
+          return res.status(404).json({ message: "Organization not found" });
+        }
+
+        const user = await storage.setUserOrganization(
+          parseInt(req.params.id),
+          organizationId,
+        );
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        const { password, resetToken, resetTokenExpiry, ...safeUser } = user;
+        res.json(safeUser);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid organization",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: "Error updating organization" });
+      }
+    },
+  );
+
+  // Certifications whose expiry or vision exam falls within the next N days (default 90)
+  app.get(
+    "/api/admin/certifications/expiring",
+    requirePermission(Permissions.READ_CERTIFICATIONS),
+    async (req, res) => {
+      try {
+        const scope = await getAdminScope(req);
+        if (!scope) {
+          return res.status(403).json(noOrganizationError);
+        }
+
+        const days = parseInt(String(req.query.days ?? "90")) || 90;
+        const expiring = await storage.getExpiringCertifications(
+          add(new Date(), { days }),
+          scope.organizationId,
+        );
+        res.json(expiring);
+      } catch (error) {
+        console.error(error);
+        res
+          .status(500)
+          .json({ message: "Error fetching expiring certifications" });
+      }
+    },
+  );
+
+  // NDT method catalog management; methods are retired rather than deleted since entries refer to their codes
+  app.post(
+    "/api/admin/methods",
+    requirePermission(Permissions.MANAGE_REQUIREMENTS),
+    async (req, res) => {
+      try {
+        const methodData = insertNdtMethodSchema.parse(req.body);
+        const methods = await storage.getMethods();
+        if (methods.some((method) => method.code === methodData.code)) {
+          return res
+            .status(400)
+            .json({ message: `Method ${methodData.code} already exists` });
+        }
+
+        const method = await storage.createMethod(methodData);
+        res.status(201).json(method);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid method data",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: "Error creating method" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/admin/methods/:id",
+    requirePermission(Permissions.MANAGE_REQUIREMENTS),
+    async (req, res) => {
+      try {
+        const methodData = updateNdtMethodSchema.parse(req.body);
+        const method = await storage.updateMethod(
+          parseInt(req.params.id),
+          methodData,
+        );
+        if (!method) {
+          return res.status(404).json({ message: "Method not found" });
+        }
+        res.json(method);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid method data",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: "Error updating method" });
+      }
+    },
+  );
+
+  // Certification requirements catalog management
+  app.post(
+    "/api/admin/certification-requirements",
+    requirePermission(Permissions.MANAGE_REQUIREMENTS),
+    async (req, res) => {
+      try {
+        const requirementData = insertCertificationRequirementSchema.parse(
+          req.body,
+        );
+        const requirement =
+          await storage.createCertificationRequirement(requirementData);
+        res.status(201).json(requirement);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid requirement data",
+            errors: error.errors,
+          });
+        }
+        res
+          .status(500)
+          .json({ message: "Error creating certification requirement" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/admin/certification-requirements/:id",
+    requirePermission(Permissions.MANAGE_REQUIREMENTS),
+    async (req, res) => {
+      try {
+        const requirementData = insertCertificationRequirementSchema
+          .partial()
+          .parse(req.body);
+        const requirement = await storage.updateCertificationRequirement(
+          parseInt(req.params.id),
+          requirementData,
+        );
+        if (!requirement) {
+          return res.status(404).json({ message: "Requirement not found" });
+        }
+        res.json(requirement);
+      } catch (error) {
+        console.error(error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid requirement data",
+            errors: error.errors,
+          });
+        }
+        res
+          .status(500)
+          .json({ message: "Error updating certification requirement" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/admin/certification-requirements/:id",
+    requirePermission(Permissions.MANAGE_REQUIREMENTS),
+    async (req, res) => {
+      try {
+        await storage.deleteCertificationRequirement(parseInt(req.params.id));
+        res.json({ message: "Requirement deleted successfully" });
+      } catch (error) {
+        console.error(error);
+        res
+          .status(500)
+          .json({ message: "Error deleting certification requirement" });
+      }
+    },
+  );
+
   // Create an admin user if none exists
   // This is mainly for development purposes
   const setupAdmin = async () => {
@@ -731,7 +2816,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const [existingAdmin] = await db
         .select()
         .from(users)
-        .where(eq(users.isAdmin, true));
+        .where(arrayContains(users.roles, [Roles.ADMIN]));
 
       if (!existingAdmin) {
         // Create admin user
@@ -740,6 +2825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: "admin@ojt.tracker",
           password: adminPassword,
           name: "System Administrator",
+          roles: [Roles.ADMIN],
           isAdmin: true,
         });
         console.log(
@@ -751,8 +2837,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
-  // Call setup admin function
+  // Install the default NDT method catalog if it is empty
+  const setupMethods = async () => {
+    try {
+      const existing = await storage.getMethods();
+      if (existing.length === 0) {
+        for (const method of DEFAULT_NDT_METHODS) {
+          await storage.createMethod(method);
+        }
+        console.log("Default NDT methods installed");
+      }
+    } catch (error) {
+      console.error("Error setting up NDT methods:", error);
+    }
+  };
+
+  // Install the default certification requirements catalog if it is empty
+  const setupCertificationRequirements = async () => {
+    try {
+      const existing = await storage.getCertificationRequirements();
+      if (existing.length === 0) {
+        for (const requirement of DEFAULT_CERTIFICATION_REQUIREMENTS) {
+          await storage.createCertificationRequirement(requirement);
+        }
+        console.log("Default certification requirements installed");
+      }
+    } catch (error) {
+      console.error("Error setting up certification requirements:", error);
+    }
+  };
+
+  // Call setup admin function once users flagged before roles existed have been migrated
+  await storage.migrateLegacyRoles();
   await setupAdmin();
+  await setupMethods();
+  await setupCertificationRequirements();
+
+  // Email technicians before certifications and vision exams lapse
+  scheduleCertificationReminders();
+
+  // Chase supervisors who haven't answered verification requests
+  scheduleVerificationReminders();
+
+  // Weekly summaries for users who asked for them
+  scheduleWeeklyDigests();
+
+  // Send queued emails and retry the ones that failed
+  scheduleEmailQueue();
+
+  // Browse emails written by the outbox transport; never exposed in production
+  if (!isProduction) {
+    registerOutboxRoutes(app);
+  }
 
   const httpServer = createServer(app);
 
@@ -0,0 +1,101 @@
+import { type Entry, type EntryFlag, type User } from "@shared/schema";
+import { entryLines, type EntryMethods } from "@shared/methods";
+
+// A day's hours across every method and entry: above the warning the entry is flagged, above the maximum it is rejected
+export const DAILY_HOURS_WARNING = Number(process.env.DAILY_HOURS_WARNING) || 12;
+export const MAX_DAILY_HOURS = Number(process.env.MAX_DAILY_HOURS) || 16;
+
+// Errors stop an entry being saved; warnings are saved with it as flags
+export interface EntryIssue extends EntryFlag {
+  severity: "error" | "warning";
+}
+
+// An entry as submitted, before it is saved
+export type EntryCandidate = EntryMethods & Pick<Entry, "date" | "location">;
+
+export interface EntryRuleContext {
+  user: Pick<User, "employmentStartDate">;
+  // The user's saved entries; rejected ones are ignored
+  existing: Entry[];
+  // The entry being edited, so it isn't compared with its own saved copy
+  editingId?: number;
+  now?: Date;
+}
+
+// Entries are dated by calendar day, stored as midnight UTC
+const dayOf = (date: Date | string) => new Date(date).toISOString().split("T")[0];
+
+const sameLocation = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sharesMethod = (a: EntryMethods, b: EntryMethods) =>
+  entryLines(a).some((line) => entryLines(b).some((other) => other.method === line.method));
+
+// Issues for each candidate, in order. Candidates are checked together, so a batch can't split a day
+// past the maximum or repeat itself.
+export function checkEntries(candidates: EntryCandidate[], context: EntryRuleContext): EntryIssue[][] {
+  const existing = context.existing.filter((entry) => !entry.rejected && entry.id !== context.editingId);
+  // Dates are picked in the trainee's time zone, which may already be a day ahead of UTC
+  const latestDay = dayOf(new Date((context.now ?? new Date()).getTime() + 14 * 60 * 60 * 1000));
+  const employmentStart = context.user.employmentStartDate ? dayOf(context.user.employmentStartDate) : null;
+
+  const dailyHours = new Map<string, number>();
+  for (const entry of [...existing, ...candidates]) {
+    const day = dayOf(entry.date);
+    dailyHours.set(day, (dailyHours.get(day) ?? 0) + entry.hours);
+  }
+
+  return candidates.map((candidate, i) => {
+    const issues: EntryIssue[] = [];
+    const day = dayOf(candidate.date);
+    const hours = dailyHours.get(day) ?? 0;
+
+    if (day > latestDay) {
+      issues.push({ rule: "future-date", severity: "error", message: "Entries cannot be dated in the future" });
+    }
+    if (employmentStart && day < employmentStart) {
+      issues.push({
+        rule: "before-employment",
+        severity: "error",
+        message: `Entries cannot be dated before the employment start date of ${employmentStart}`,
+      });
+    }
+
+    if (hours > MAX_DAILY_HOURS) {
+      issues.push({
+        rule: "daily-maximum",
+        severity: "error",
+        message: `${day} would total ${hours.toFixed(1)} hours, more than the daily maximum of ${MAX_DAILY_HOURS}`,
+      });
+    } else if (hours > DAILY_HOURS_WARNING) {
+      issues.push({
+        rule: "daily-warning",
+        severity: "warning",
+        message: `${day} totals ${hours.toFixed(1)} hours, more than ${DAILY_HOURS_WARNING} in one day`,
+      });
+    }
+
+    const duplicate = [...existing, ...candidates.slice(0, i)].find(
+      (other) =>
+        dayOf(other.date) === day &&
+        sameLocation(other.location, candidate.location) &&
+        sharesMethod(other, candidate),
+    );
+    if (duplicate) {
+      issues.push({
+        rule: "duplicate",
+        severity: "warning",
+        message: `Possible duplicate of another ${day} entry at ${duplicate.location.trim()}`,
+      });
+    }
+
+    return issues;
+  });
+}
+
+export const ruleErrors = (issues: EntryIssue[]) => issues.filter((issue) => issue.severity === "error");
+
+// What is saved on the entry for its warnings
+export const ruleFlags = (issues: EntryIssue[]): EntryFlag[] =>
+  issues
+    .filter((issue) => issue.severity === "warning")
+    .map(({ rule, message }) => ({ rule, message }));
@@ -0,0 +1,76 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from "crypto";
+import { Entry } from "@shared/schema";
+
+export const SIGNATURE_ALGORITHM = "Ed25519";
+
+// The server's Ed25519 key. Set ENTRY_SIGNING_PRIVATE_KEY to a PKCS#8 PEM key
+// (e.g. `openssl genpkey -algorithm ed25519`) so signatures survive restarts.
+function loadPrivateKey(): KeyObject {
+  const pem = process.env.ENTRY_SIGNING_PRIVATE_KEY;
+  if (pem) {
+    return createPrivateKey(pem.replace(/\\n/g, "\n"));
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ENTRY_SIGNING_PRIVATE_KEY must be set in production");
+  }
+
+  console.warn(
+    "ENTRY_SIGNING_PRIVATE_KEY is not set. Using a temporary key; entries signed now will not check out after a restart.",
+  );
+  return generateKeyPairSync("ed25519").privateKey;
+}
+
+const privateKey = loadPrivateKey();
+const publicKey = createPublicKey(privateKey);
+
+export const signingPublicKey = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+// Short fingerprint of the public key, stored with each signature so rotated keys can be told apart
+export const signingKeyId = createHash("sha256")
+  .update(publicKey.export({ type: "spki", format: "der" }))
+  .digest("hex")
+  .slice(0, 16);
+
+// The fields covered by a verification signature, in a fixed order
+export function signedPayload(entry: Entry): string {
+  return JSON.stringify({
+    entryId: entry.id,
+    userId: entry.userId,
+    date: new Date(entry.date).toISOString(),
+    location: entry.location,
+    method: entry.method,
+    hours: entry.hours,
+    // Only split entries carry lines, so signatures made before splits existed still check
+    ...(entry.lines ? { lines: entry.lines } : {}),
+    verifiedBy: entry.verifiedBy,
+    verifierEmail: entry.verifierEmail,
+    verifiedAt: entry.verifiedAt ? new Date(entry.verifiedAt).toISOString() : null,
+  });
+}
+
+export function signEntry(entry: Entry): string {
+  return sign(null, Buffer.from(signedPayload(entry)), privateKey).toString("base64");
+}
+
+// True when the stored signature matches the entry's current values and this server's key
+export function checkEntrySignature(entry: Entry): boolean {
+  if (!entry.signature || entry.signatureKeyId !== signingKeyId) {
+    return false;
+  }
+
+  return verify(
+    null,
+    Buffer.from(signedPayload(entry)),
+    publicKey,
+    Buffer.from(entry.signature, "base64"),
+  );
+}
@@ -1,31 +1,238 @@
 import { 
-  users, entries, supervisors, 
-  type User, type InsertUser, 
-  type Entry, type InsertEntry,
-  type Supervisor, type InsertSupervisor 
+  users, entries, supervisors, verificationRequests, entryHistory, magicLinkTokens, exportedLogs,
+  certificationRequirements, certifications, organizations, jobs, ndtMethods, outboundEmails,
+  type Organization, type InsertOrganization,
+  type Job, type InsertJob,
+  type User, type InsertUser, type NotificationPreferences,
+  type Entry, type InsertEntry, type UpdateEntry, type EntryFlag,
+  type Supervisor, type InsertSupervisor,
+  type VerificationRequest, type EntryHistory, type EntryHistoryAction,
+  type MagicLinkToken, type ExportedLog, type ExportSnapshot,
+  type NdtMethod, type InsertNdtMethod, type UpdateNdtMethod,
+  type OutboundEmail, type InsertOutboundEmail, type EmailStatus,
+  type CertificationRequirement, type InsertCertificationRequirement,
+  type Certification, type InsertCertification, type UpdateCertification
 } from "@shared/schema";
 
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
-import { v4 as uuidv4 } from "uuid";
+import { signEntry, signingKeyId } from "./signing";
+import { Roles, type Role } from "@shared/permissions";
+import { eq, and, or, not, asc, desc, gt, gte, lte, isNull, isNotNull, inArray, notExists, arrayContains, sql } from "drizzle-orm";
+import { type AnyPgColumn } from "drizzle-orm/pg-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Case-insensitive email match, since trainees type supervisor emails by hand
+function sameEmail(column: AnyPgColumn, email: string) {
+  return eq(sql`lower(${column})`, email.trim().toLowerCase());
+}
+
+// Revoke requests that no longer cover any entries, so their links stop working
+async function revokeEmptyRequests(tx: Transaction, requestIds: number[]) {
+  if (requestIds.length === 0) return;
+
+  await tx
+    .update(verificationRequests)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        inArray(verificationRequests.id, requestIds),
+        isNull(verificationRequests.revokedAt),
+        notExists(
+          tx
+            .select()
+            .from(entries)
+            .where(eq(entries.verificationRequestId, verificationRequests.id))
+        )
+      )
+    );
+}
+
+// History row for an entry, capturing its values at the time of the action
+function historyRecord(
+  entry: Entry,
+  action: EntryHistoryAction,
+  actorName: string | null,
+  comment: string | null = null,
+  verifier?: VerifierContext
+) {
+  return {
+    entryId: entry.id,
+    verificationRequestId: entry.verificationRequestId,
+    action,
+    actorName,
+    actorEmail: verifier?.email ?? null,
+    actorIp: verifier?.ip ?? null,
+    actorUserAgent: verifier?.userAgent ?? null,
+    comment,
+    date: entry.date,
+    location: entry.location,
+    method: entry.method,
+    hours: entry.hours,
+    lines: entry.lines,
+  };
+}
+
+// Who made a verification decision and where it came from, kept in the entry history
+export interface VerifierContext {
+  email: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// Which entries an export covers; omitting userId covers every user
+export interface EntryExportFilters {
+  userId?: number;
+  organizationId?: number;
+  from?: Date;
+  to?: Date;
+  methods?: string[];
+}
+
+export interface EntryExportRow {
+  entry: Entry;
+  user: Pick<User, "name" | "email" | "employeeNumber">;
+}
+
+// A certification whose expiry or vision exam falls before a date, with its holder
+export interface ExpiringCertification {
+  certification: Certification;
+  user: Pick<User, "id" | "name" | "email" | "employeeNumber" | "locale" | "notificationPreferences">;
+}
+
+// An open verification request addressed to a supervisor account, with its trainee and undecided entries
+export interface SupervisorPendingRequest {
+  request: VerificationRequest;
+  technician: Pick<User, "id" | "name" | "email" | "employeeNumber">;
+  entries: Entry[];
+}
+
+// A verification decision a supervisor made, with the trainee it was for
+export interface SupervisorDecision {
+  history: EntryHistory;
+  technician: Pick<User, "id" | "name" | "email" | "employeeNumber">;
+}
+
+// An open verification request the supervisor has left unanswered, with everyone to notify and its undecided entries
+export interface StaleVerificationRequest {
+  request: VerificationRequest;
+  supervisor: Supervisor;
+  technician: User;
+  entries: Entry[];
+}
+
+// How far reminders have gone for one of a trainee's open verification requests
+export type VerificationReminderStatus = Pick<
+  VerificationRequest,
+  "id" | "createdAt" | "reminderCount" | "lastRemindedAt" | "escalatedAt"
+>;
+
+// Delivery of the latest email sent for a verification request
+export interface RequestEmailStatus {
+  emailId: number;
+  verificationRequestId: number;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+}
 
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(organizationId?: number): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  setUserRoles(id: number, roles: Role[]): Promise<User | undefined>;
+  setUserOrganization(id: number, organizationId: number | null): Promise<User | undefined>;
+  markEmailVerified(id: number): Promise<User | undefined>;
+  updateNotificationPreferences(id: number, changes: Partial<NotificationPreferences>): Promise<User | undefined>;
+  getDigestRecipients(lastSentBefore: Date): Promise<User[]>;
+  recordDigestSent(id: number, sentAt: Date): Promise<void>;
+  setUserEmploymentStart(id: number, employmentStartDate: Date | null): Promise<User | undefined>;
+  migrateLegacyRoles(): Promise<void>;
+
+  // Organization methods
+  getOrganizations(): Promise<Organization[]>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  deleteOrganization(id: number): Promise<void>;
+
+  // Job methods
+  getJobs(organizationId?: number): Promise<Job[]>;
+  getJobsForUser(user: Pick<User, "id" | "organizationId">): Promise<Job[]>;
+  getJob(id: number): Promise<Job | undefined>;
+  createJob(job: InsertJob): Promise<Job>;
   
   // Entry methods
   getEntries(userId: number): Promise<Entry[]>;
+  getAllEntries(organizationId?: number): Promise<Entry[]>;
   getEntry(id: number): Promise<Entry | undefined>;
-  getEntryByVerificationToken(token: string): Promise<Entry | undefined>;
-  createEntry(entry: InsertEntry): Promise<Entry>;
-  verifyEntry(id: number, verifiedBy: string): Promise<Entry>;
+  createEntry(entry: InsertEntry & { flags: EntryFlag[] }): Promise<Entry>;
+  importEntries(rows: (InsertEntry & { importedVerifier: string | null; flags: EntryFlag[] })[]): Promise<Entry[]>;
+  verifyEntry(id: number, verifiedBy: string, verifier: VerifierContext): Promise<Entry>;
+  rejectEntry(id: number, rejectedBy: string, reason: string, verifier: VerifierContext): Promise<Entry>;
+  updateEntry(id: number, entry: UpdateEntry & { flags: EntryFlag[] }): Promise<Entry>;
+  deleteEntry(id: number): Promise<void>;
+  getEntryHistory(entryId: number): Promise<EntryHistory[]>;
+  getEntriesForExport(filters: EntryExportFilters): Promise<EntryExportRow[]>;
   
   // Supervisor methods
   getSupervisors(userId: number): Promise<Supervisor[]>;
   getSupervisor(id: number): Promise<Supervisor | undefined>;
   createSupervisor(supervisor: InsertSupervisor): Promise<Supervisor>;
+  countSupervisorContacts(email: string): Promise<number>;
+  claimSupervisorAccount(accountId: number, email: string): Promise<User>;
+  getSupervisorPendingRequests(accountId: number): Promise<SupervisorPendingRequest[]>;
+  getSupervisorDecisions(accountId: number): Promise<SupervisorDecision[]>;
+
+  // Verification request methods
+  createVerificationRequest(userId: number, supervisorId: number, tokenHash: string, expiresAt: Date, entryIds: number[]): Promise<VerificationRequest>;
+  getVerificationRequest(id: number): Promise<VerificationRequest | undefined>;
+  getVerificationRequestByTokenHash(tokenHash: string): Promise<VerificationRequest | undefined>;
+  getEntriesByVerificationRequest(requestId: number): Promise<Entry[]>;
+  completeVerificationRequest(id: number): Promise<void>;
+  revokeVerificationRequest(id: number): Promise<void>;
+  setVerificationCode(id: number, codeHash: string, expiresAt: Date): Promise<void>;
+  recordVerificationCodeAttempt(id: number): Promise<void>;
+  getStaleVerificationRequests(quietSince: Date): Promise<StaleVerificationRequest[]>;
+  recordVerificationReminder(id: number, escalated: boolean): Promise<void>;
+  getVerificationReminderStatuses(userId: number): Promise<VerificationReminderStatus[]>;
+
+  // Exported log methods
+  createExportedLog(userId: number, documentId: string, snapshot: ExportSnapshot): Promise<ExportedLog>;
+  getExportedLog(documentId: string): Promise<ExportedLog | undefined>;
+
+  // NDT method catalog methods
+  getMethods(): Promise<NdtMethod[]>;
+  createMethod(method: InsertNdtMethod): Promise<NdtMethod>;
+  updateMethod(id: number, method: UpdateNdtMethod): Promise<NdtMethod | undefined>;
+
+  // Certification requirement methods
+  getCertificationRequirements(scheme?: string): Promise<CertificationRequirement[]>;
+  createCertificationRequirement(requirement: InsertCertificationRequirement): Promise<CertificationRequirement>;
+  updateCertificationRequirement(id: number, requirement: Partial<InsertCertificationRequirement>): Promise<CertificationRequirement | undefined>;
+  deleteCertificationRequirement(id: number): Promise<void>;
+
+  // Certification methods
+  getCertifications(userId: number): Promise<Certification[]>;
+  getCertification(id: number): Promise<Certification | undefined>;
+  createCertification(certification: InsertCertification): Promise<Certification>;
+  updateCertification(id: number, certification: UpdateCertification): Promise<Certification>;
+  deleteCertification(id: number): Promise<void>;
+  getExpiringCertifications(before: Date, organizationId?: number): Promise<ExpiringCertification[]>;
+  setCertificationReminder(id: number, kind: "expiry" | "vision", days: number): Promise<void>;
+
+  // Magic link methods
+  createMagicLinkToken(email: string, tokenHash: string, expiresAt: Date): Promise<MagicLinkToken>;
+  consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | undefined>;
+
+  // Outbound email methods
+  queueEmail(email: InsertOutboundEmail): Promise<OutboundEmail>;
+  claimEmails(now: Date, leaseUntil: Date, options: { id?: number; limit: number }): Promise<OutboundEmail[]>;
+  markEmailSent(id: number): Promise<void>;
+  markEmailFailed(id: number, error: string, retryAt: Date | null): Promise<void>;
+  retryEmail(id: number): Promise<OutboundEmail | undefined>;
+  getRequestEmailStatuses(userId: number): Promise<RequestEmailStatus[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -40,11 +247,172 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Omitting organizationId returns users from every organization
+  async getUsers(organizationId?: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(organizationId === undefined ? undefined : eq(users.organizationId, organizationId))
+      .orderBy(asc(users.id));
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
   }
 
+  async setUserOrganization(id: number, organizationId: number | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ organizationId })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // The first time a user proves their address, they join the organization that claims its domain,
+  // if they aren't in one. Anyone can register any address, so an unproven one never joins.
+  async markEmailVerified(id: number): Promise<User | undefined> {
+    const user = await this.getUser(id);
+    if (!user || user.emailVerifiedAt) return user;
+
+    const domain = user.email.split("@")[1]?.toLowerCase();
+    const [organization] =
+      domain && user.organizationId === null
+        ? await db.select().from(organizations).where(eq(organizations.emailDomain, domain))
+        : [];
+    const [verified] = await db
+      .update(users)
+      .set({
+        emailVerifiedAt: new Date(),
+        organizationId: user.organizationId ?? organization?.id ?? null,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return verified;
+  }
+
+  // Changes are merged over the saved preferences, so an unsubscribe link only touches its own email
+  async updateNotificationPreferences(
+    id: number,
+    changes: Partial<NotificationPreferences>
+  ): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        notificationPreferences: sql`${users.notificationPreferences} || ${JSON.stringify(changes)}::jsonb`,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Users who want the weekly digest and haven't had one since the given time
+  async getDigestRecipients(lastSentBefore: Date): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          sql`(${users.notificationPreferences} ->> 'weeklyDigest')::boolean`,
+          or(isNull(users.lastDigestAt), lte(users.lastDigestAt, lastSentBefore))
+        )
+      );
+  }
+
+  async recordDigestSent(id: number, sentAt: Date): Promise<void> {
+    await db.update(users).set({ lastDigestAt: sentAt }).where(eq(users.id, id));
+  }
+
+  async setUserEmploymentStart(id: number, employmentStartDate: Date | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ employmentStartDate })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // The legacy flags follow the roles so a later migration cannot hand a removed role back
+  async setUserRoles(id: number, roles: Role[]): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        roles,
+        isAdmin: roles.includes(Roles.ADMIN),
+        isSupervisor: roles.includes(Roles.SUPERVISOR),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Give users flagged before roles existed the matching admin and supervisor roles
+  async migrateLegacyRoles(): Promise<void> {
+    const legacyFlags = [
+      { flag: users.isAdmin, role: Roles.ADMIN },
+      { flag: users.isSupervisor, role: Roles.SUPERVISOR },
+    ];
+    for (const { flag, role } of legacyFlags) {
+      await db
+        .update(users)
+        .set({ roles: sql`array_append(${users.roles}, ${role})` })
+        .where(and(eq(flag, true), not(arrayContains(users.roles, [role]))));
+    }
+  }
+
+  // Organization methods
+  async getOrganizations(): Promise<Organization[]> {
+    return await db.select().from(organizations).orderBy(asc(organizations.name));
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [newOrganization] = await db.insert(organizations).values(organization).returning();
+    return newOrganization;
+  }
+
+  async deleteOrganization(id: number): Promise<void> {
+    await db.delete(organizations).where(eq(organizations.id, id));
+  }
+
+  // Job methods
+  // Omitting organizationId returns jobs from every organization
+  async getJobs(organizationId?: number): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(organizationId === undefined ? undefined : eq(jobs.organizationId, organizationId))
+      .orderBy(asc(jobs.client), asc(jobs.site));
+  }
+
+  // The user's organization's jobs, or the jobs they created themselves if they have no organization
+  async getJobsForUser(user: Pick<User, "id" | "organizationId">): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(
+        user.organizationId === null
+          ? and(isNull(jobs.organizationId), eq(jobs.createdBy, user.id))
+          : eq(jobs.organizationId, user.organizationId)
+      )
+      .orderBy(asc(jobs.client), asc(jobs.site));
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db.insert(jobs).values(job).returning();
+    return newJob;
+  }
+
   // Entry methods
   async getEntries(userId: number): Promise<Entry[]> {
     return await db
@@ -54,39 +422,138 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(entries.date));
   }
 
-  async getEntry(id: number): Promise<Entry | undefined> {
-    const [entry] = await db.select().from(entries).where(eq(entries.id, id));
-    return entry;
-  }
+  // Omitting organizationId returns entries from every organization
+  async getAllEntries(organizationId?: number): Promise<Entry[]> {
+    if (organizationId === undefined) {
+      return await db.select().from(entries);
+    }
 
-  async getEntryByVerificationToken(token: string): Promise<Entry | undefined> {
-    const [entry] = await db
-      .select()
+    const rows = await db
+      .select({ entry: entries })
       .from(entries)
-      .where(eq(entries.verificationToken, token));
+      .innerJoin(users, eq(entries.userId, users.id))
+      .where(eq(users.organizationId, organizationId));
+    return rows.map(({ entry }) => entry);
+  }
+
+  async getEntry(id: number): Promise<Entry | undefined> {
+    const [entry] = await db.select().from(entries).where(eq(entries.id, id));
     return entry;
   }
 
-  async createEntry(entry: InsertEntry): Promise<Entry> {
-    const verificationToken = uuidv4();
+  async createEntry(entry: InsertEntry & { flags: EntryFlag[] }): Promise<Entry> {
     const [newEntry] = await db
       .insert(entries)
-      .values({ ...entry, verificationToken })
+      .values(entry)
       .returning();
     return newEntry;
   }
 
-  async verifyEntry(id: number, verifiedBy: string): Promise<Entry> {
-    const [entry] = await db
-      .update(entries)
-      .set({ 
-        verified: true, 
-        verifiedBy, 
-        verifiedAt: new Date() 
+  // All rows of an import go in together or not at all
+  async importEntries(rows: (InsertEntry & { importedVerifier: string | null; flags: EntryFlag[] })[]): Promise<Entry[]> {
+    return await db.transaction(async (tx) => {
+      return await tx
+        .insert(entries)
+        .values(rows.map((row) => ({ ...row, imported: true })))
+        .returning();
+    });
+  }
+
+  // The verified values are signed in the same transaction so a later edit to the row breaks the signature
+  async verifyEntry(id: number, verifiedBy: string, verifier: VerifierContext): Promise<Entry> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(entries).where(eq(entries.id, id));
+      const verification = {
+        verified: true,
+        verifiedBy,
+        verifierEmail: verifier.email,
+        verifiedAt: new Date(),
+      };
+      const [entry] = await tx
+        .update(entries)
+        .set({
+          ...verification,
+          signature: signEntry({ ...current, ...verification }),
+          signatureKeyId: signingKeyId,
+        })
+        .where(eq(entries.id, id))
+        .returning();
+      await tx.insert(entryHistory).values(historyRecord(entry, "verified", verifiedBy, null, verifier));
+      return entry;
+    });
+  }
+
+  async rejectEntry(id: number, rejectedBy: string, reason: string, verifier: VerifierContext): Promise<Entry> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(entries)
+        .set({
+          rejected: true,
+          rejectedBy,
+          rejectionReason: reason,
+          rejectedAt: new Date()
+        })
+        .where(eq(entries.id, id))
+        .returning();
+      await tx.insert(entryHistory).values(historyRecord(entry, "rejected", rejectedBy, reason, verifier));
+      return entry;
+    });
+  }
+
+  // Editing detaches the entry from its request so an outstanding link can no longer sign off on changed values
+  async updateEntry(id: number, entry: UpdateEntry & { flags: EntryFlag[] }): Promise<Entry> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(entries).where(eq(entries.id, id));
+      const [updatedEntry] = await tx
+        .update(entries)
+        .set({ ...entry, verificationRequestId: null })
+        .where(eq(entries.id, id))
+        .returning();
+      await tx.insert(entryHistory).values(historyRecord(updatedEntry, "edited", null));
+      if (previous?.verificationRequestId) {
+        await revokeEmptyRequests(tx, [previous.verificationRequestId]);
+      }
+      return updatedEntry;
+    });
+  }
+
+  async deleteEntry(id: number): Promise<void> {
+    await db.delete(entries).where(eq(entries.id, id));
+  }
+
+  async getEntryHistory(entryId: number): Promise<EntryHistory[]> {
+    return await db
+      .select()
+      .from(entryHistory)
+      .where(eq(entryHistory.entryId, entryId))
+      .orderBy(asc(entryHistory.createdAt), asc(entryHistory.id));
+  }
+
+  async getEntriesForExport(filters: EntryExportFilters): Promise<EntryExportRow[]> {
+    const conditions = [];
+    if (filters.userId !== undefined) conditions.push(eq(entries.userId, filters.userId));
+    if (filters.organizationId !== undefined) conditions.push(eq(users.organizationId, filters.organizationId));
+    if (filters.from) conditions.push(gte(entries.date, filters.from));
+    if (filters.to) conditions.push(lte(entries.date, filters.to));
+    if (filters.methods?.length) {
+      // Split entries match on any of their lines
+      conditions.push(
+        or(
+          inArray(entries.method, filters.methods),
+          sql`exists (select 1 from jsonb_array_elements(${entries.lines}) as line where line->>'method' in ${filters.methods})`
+        )
+      );
+    }
+
+    return await db
+      .select({
+        entry: entries,
+        user: { name: users.name, email: users.email, employeeNumber: users.employeeNumber },
       })
-      .where(eq(entries.id, id))
-      .returning();
-    return entry;
+      .from(entries)
+      .innerJoin(users, eq(entries.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(users.name), asc(entries.date));
   }
 
   // Supervisor methods
@@ -105,13 +572,557 @@ export class DatabaseStorage implements IStorage {
     return supervisor;
   }
 
+  // Contacts added for a supervisor who has already claimed an account are linked to it straight away
   async createSupervisor(supervisor: InsertSupervisor): Promise<Supervisor> {
+    const [account] = await db
+      .select()
+      .from(users)
+      .where(and(sameEmail(users.email, supervisor.email), arrayContains(users.roles, [Roles.SUPERVISOR])));
+
     const [newSupervisor] = await db
       .insert(supervisors)
-      .values(supervisor)
+      .values({ ...supervisor, accountId: account?.id ?? null })
       .returning();
     return newSupervisor;
   }
+
+  async countSupervisorContacts(email: string): Promise<number> {
+    const contacts = await db
+      .select({ id: supervisors.id })
+      .from(supervisors)
+      .where(sameEmail(supervisors.email, email));
+    return contacts.length;
+  }
+
+  // Link every trainee's contact entry for this email to the supervisor's account
+  async claimSupervisorAccount(accountId: number, email: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(supervisors)
+        .set({ accountId })
+        .where(sameEmail(supervisors.email, email));
+      const [user] = await tx
+        .update(users)
+        .set({
+          roles: sql`array_append(array_remove(${users.roles}, ${Roles.SUPERVISOR}), ${Roles.SUPERVISOR})`,
+          isSupervisor: true,
+        })
+        .where(eq(users.id, accountId))
+        .returning();
+      return user;
+    });
+  }
+
+  async getSupervisorPendingRequests(accountId: number): Promise<SupervisorPendingRequest[]> {
+    const requests = await db
+      .select({
+        request: verificationRequests,
+        technician: { id: users.id, name: users.name, email: users.email, employeeNumber: users.employeeNumber },
+      })
+      .from(verificationRequests)
+      .innerJoin(supervisors, eq(verificationRequests.supervisorId, supervisors.id))
+      .innerJoin(users, eq(verificationRequests.userId, users.id))
+      .where(
+        and(
+          eq(supervisors.accountId, accountId),
+          isNull(verificationRequests.usedAt),
+          isNull(verificationRequests.revokedAt),
+          gt(verificationRequests.expiresAt, new Date())
+        )
+      )
+      .orderBy(asc(verificationRequests.createdAt));
+
+    if (requests.length === 0) return [];
+
+    const pendingEntries = await db
+      .select()
+      .from(entries)
+      .where(
+        and(
+          inArray(entries.verificationRequestId, requests.map(({ request }) => request.id)),
+          eq(entries.verified, false),
+          eq(entries.rejected, false)
+        )
+      )
+      .orderBy(asc(entries.date));
+
+    return requests
+      .map((row) => ({
+        ...row,
+        entries: pendingEntries.filter((entry) => entry.verificationRequestId === row.request.id),
+      }))
+      .filter((row) => row.entries.length > 0);
+  }
+
+  async getSupervisorDecisions(accountId: number): Promise<SupervisorDecision[]> {
+    return await db
+      .select({
+        history: entryHistory,
+        technician: { id: users.id, name: users.name, email: users.email, employeeNumber: users.employeeNumber },
+      })
+      .from(entryHistory)
+      .innerJoin(verificationRequests, eq(entryHistory.verificationRequestId, verificationRequests.id))
+      .innerJoin(supervisors, eq(verificationRequests.supervisorId, supervisors.id))
+      .innerJoin(users, eq(verificationRequests.userId, users.id))
+      .where(
+        and(
+          eq(supervisors.accountId, accountId),
+          inArray(entryHistory.action, ["verified", "rejected"])
+        )
+      )
+      .orderBy(desc(entryHistory.createdAt))
+      .limit(500);
+  }
+
+  // Verification request methods
+  async createVerificationRequest(
+    userId: number,
+    supervisorId: number,
+    tokenHash: string,
+    expiresAt: Date,
+    entryIds: number[]
+  ): Promise<VerificationRequest> {
+    return await db.transaction(async (tx) => {
+      const previousRequests = await tx
+        .selectDistinct({ id: entries.verificationRequestId })
+        .from(entries)
+        .where(and(inArray(entries.id, entryIds), isNotNull(entries.verificationRequestId)));
+
+      const [request] = await tx
+        .insert(verificationRequests)
+        .values({ userId, supervisorId, tokenHash, expiresAt })
+        .returning();
+      const [supervisor] = await tx
+        .select()
+        .from(supervisors)
+        .where(eq(supervisors.id, supervisorId));
+
+      // Entries move to the newest request, which supersedes any earlier link and starts a new review round
+      const requestedEntries = await tx
+        .update(entries)
+        .set({
+          verificationRequestId: request.id,
+          rejected: false,
+          rejectedBy: null,
+          rejectionReason: null,
+          rejectedAt: null
+        })
+        .where(inArray(entries.id, entryIds))
+        .returning();
+      await tx
+        .insert(entryHistory)
+        .values(requestedEntries.map((entry) => historyRecord(entry, "requested", supervisor.name)));
+
+      // Earlier links left without entries are revoked outright
+      await revokeEmptyRequests(
+        tx,
+        previousRequests.map((previous) => previous.id!).filter((id) => id !== request.id)
+      );
+
+      return request;
+    });
+  }
+
+  async getVerificationRequest(id: number): Promise<VerificationRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(verificationRequests)
+      .where(eq(verificationRequests.id, id));
+    return request;
+  }
+
+  async getVerificationRequestByTokenHash(tokenHash: string): Promise<VerificationRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(verificationRequests)
+      .where(eq(verificationRequests.tokenHash, tokenHash));
+    return request;
+  }
+
+  async getEntriesByVerificationRequest(requestId: number): Promise<Entry[]> {
+    return await db
+      .select()
+      .from(entries)
+      .where(eq(entries.verificationRequestId, requestId))
+      .orderBy(entries.date);
+  }
+
+  async completeVerificationRequest(id: number): Promise<void> {
+    await db
+      .update(verificationRequests)
+      .set({ usedAt: new Date() })
+      .where(and(eq(verificationRequests.id, id), isNull(verificationRequests.usedAt)));
+  }
+
+  // Cancelling revokes the link and returns undecided entries to the trainee's log
+  async revokeVerificationRequest(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(verificationRequests)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(verificationRequests.id, id), isNull(verificationRequests.revokedAt)));
+      await tx
+        .update(entries)
+        .set({ verificationRequestId: null })
+        .where(
+          and(
+            eq(entries.verificationRequestId, id),
+            eq(entries.verified, false),
+            eq(entries.rejected, false)
+          )
+        );
+    });
+  }
+
+  // A new code replaces any earlier one and resets the failed attempt count
+  async setVerificationCode(id: number, codeHash: string, expiresAt: Date): Promise<void> {
+    await db
+      .update(verificationRequests)
+      .set({ codeHash, codeExpiresAt: expiresAt, codeAttempts: 0 })
+      .where(eq(verificationRequests.id, id));
+  }
+
+  async recordVerificationCodeAttempt(id: number): Promise<void> {
+    await db
+      .update(verificationRequests)
+      .set({ codeAttempts: sql`${verificationRequests.codeAttempts} + 1` })
+      .where(eq(verificationRequests.id, id));
+  }
+
+  // Open requests with undecided entries and no word from the supervisor, or reminder sent, since the given time.
+  // Escalated requests are left alone.
+  async getStaleVerificationRequests(quietSince: Date): Promise<StaleVerificationRequest[]> {
+    const now = new Date();
+    const requests = await db
+      .select({
+        request: verificationRequests,
+        supervisor: supervisors,
+        technician: users,
+      })
+      .from(verificationRequests)
+      .innerJoin(supervisors, eq(verificationRequests.supervisorId, supervisors.id))
+      .innerJoin(users, eq(verificationRequests.userId, users.id))
+      .where(
+        and(
+          isNull(verificationRequests.usedAt),
+          isNull(verificationRequests.revokedAt),
+          isNull(verificationRequests.escalatedAt),
+          gt(verificationRequests.expiresAt, now),
+          lte(sql`coalesce(${verificationRequests.lastRemindedAt}, ${verificationRequests.createdAt})`, quietSince)
+        )
+      )
+      .orderBy(asc(verificationRequests.createdAt));
+
+    if (requests.length === 0) return [];
+
+    const pendingEntries = await db
+      .select()
+      .from(entries)
+      .where(
+        and(
+          inArray(entries.verificationRequestId, requests.map(({ request }) => request.id)),
+          eq(entries.verified, false),
+          eq(entries.rejected, false)
+        )
+      )
+      .orderBy(asc(entries.date));
+
+    return requests
+      .map((row) => ({
+        ...row,
+        entries: pendingEntries.filter((entry) => entry.verificationRequestId === row.request.id),
+      }))
+      .filter((row) => row.entries.length > 0);
+  }
+
+  async recordVerificationReminder(id: number, escalated: boolean): Promise<void> {
+    await db
+      .update(verificationRequests)
+      .set(
+        escalated
+          ? { escalatedAt: new Date() }
+          : { reminderCount: sql`${verificationRequests.reminderCount} + 1`, lastRemindedAt: new Date() }
+      )
+      .where(eq(verificationRequests.id, id));
+  }
+
+  async getVerificationReminderStatuses(userId: number): Promise<VerificationReminderStatus[]> {
+    return await db
+      .select({
+        id: verificationRequests.id,
+        createdAt: verificationRequests.createdAt,
+        reminderCount: verificationRequests.reminderCount,
+        lastRemindedAt: verificationRequests.lastRemindedAt,
+        escalatedAt: verificationRequests.escalatedAt,
+      })
+      .from(verificationRequests)
+      .where(
+        and(
+          eq(verificationRequests.userId, userId),
+          isNull(verificationRequests.usedAt),
+          isNull(verificationRequests.revokedAt)
+        )
+      );
+  }
+
+  // Exported log methods
+  async createExportedLog(userId: number, documentId: string, snapshot: ExportSnapshot): Promise<ExportedLog> {
+    const [exportedLog] = await db
+      .insert(exportedLogs)
+      .values({ userId, documentId, snapshot })
+      .returning();
+    return exportedLog;
+  }
+
+  async getExportedLog(documentId: string): Promise<ExportedLog | undefined> {
+    const [exportedLog] = await db
+      .select()
+      .from(exportedLogs)
+      .where(eq(exportedLogs.documentId, documentId));
+    return exportedLog;
+  }
+
+  // NDT method catalog methods
+  async getMethods(): Promise<NdtMethod[]> {
+    return await db.select().from(ndtMethods).orderBy(asc(ndtMethods.sortOrder), asc(ndtMethods.code));
+  }
+
+  async createMethod(method: InsertNdtMethod): Promise<NdtMethod> {
+    const [newMethod] = await db.insert(ndtMethods).values(method).returning();
+    return newMethod;
+  }
+
+  async updateMethod(id: number, method: UpdateNdtMethod): Promise<NdtMethod | undefined> {
+    const [updatedMethod] = await db
+      .update(ndtMethods)
+      .set(method)
+      .where(eq(ndtMethods.id, id))
+      .returning();
+    return updatedMethod;
+  }
+
+  // Certification requirement methods
+  async getCertificationRequirements(scheme?: string): Promise<CertificationRequirement[]> {
+    return await db
+      .select()
+      .from(certificationRequirements)
+      .where(scheme ? eq(certificationRequirements.scheme, scheme) : undefined)
+      .orderBy(
+        asc(certificationRequirements.scheme),
+        asc(certificationRequirements.method),
+        asc(certificationRequirements.level)
+      );
+  }
+
+  async createCertificationRequirement(requirement: InsertCertificationRequirement): Promise<CertificationRequirement> {
+    const [newRequirement] = await db
+      .insert(certificationRequirements)
+      .values(requirement)
+      .returning();
+    return newRequirement;
+  }
+
+  async updateCertificationRequirement(
+    id: number,
+    requirement: Partial<InsertCertificationRequirement>
+  ): Promise<CertificationRequirement | undefined> {
+    const [updatedRequirement] = await db
+      .update(certificationRequirements)
+      .set(requirement)
+      .where(eq(certificationRequirements.id, id))
+      .returning();
+    return updatedRequirement;
+  }
+
+  async deleteCertificationRequirement(id: number): Promise<void> {
+    await db.delete(certificationRequirements).where(eq(certificationRequirements.id, id));
+  }
+
+  // Certification methods
+  async getCertifications(userId: number): Promise<Certification[]> {
+    return await db
+      .select()
+      .from(certifications)
+      .where(eq(certifications.userId, userId))
+      .orderBy(asc(certifications.expiresAt));
+  }
+
+  async getCertification(id: number): Promise<Certification | undefined> {
+    const [certification] = await db
+      .select()
+      .from(certifications)
+      .where(eq(certifications.id, id));
+    return certification;
+  }
+
+  async createCertification(certification: InsertCertification): Promise<Certification> {
+    const [newCertification] = await db
+      .insert(certifications)
+      .values(certification)
+      .returning();
+    return newCertification;
+  }
+
+  // Moving a date clears its reminder so the new date is reminded about afresh
+  async updateCertification(id: number, certification: UpdateCertification): Promise<Certification> {
+    const [updatedCertification] = await db
+      .update(certifications)
+      .set({
+        ...certification,
+        ...(certification.expiresAt !== undefined && { expiryReminderDays: null }),
+        ...(certification.visionExamAt !== undefined && { visionReminderDays: null }),
+      })
+      .where(eq(certifications.id, id))
+      .returning();
+    return updatedCertification;
+  }
+
+  async deleteCertification(id: number): Promise<void> {
+    await db.delete(certifications).where(eq(certifications.id, id));
+  }
+
+  // Vision exams fall due a year after the last one
+  async getExpiringCertifications(before: Date, organizationId?: number): Promise<ExpiringCertification[]> {
+    const visionCutoff = new Date(before);
+    visionCutoff.setFullYear(visionCutoff.getFullYear() - 1);
+
+    return await db
+      .select({
+        certification: certifications,
+        user: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          employeeNumber: users.employeeNumber,
+          locale: users.locale,
+          notificationPreferences: users.notificationPreferences,
+        },
+      })
+      .from(certifications)
+      .innerJoin(users, eq(certifications.userId, users.id))
+      .where(
+        and(
+          or(
+            lte(certifications.expiresAt, before),
+            lte(certifications.visionExamAt, visionCutoff)
+          ),
+          organizationId === undefined ? undefined : eq(users.organizationId, organizationId)
+        )
+      )
+      .orderBy(asc(certifications.expiresAt));
+  }
+
+  async setCertificationReminder(id: number, kind: "expiry" | "vision", days: number): Promise<void> {
+    await db
+      .update(certifications)
+      .set(kind === "expiry" ? { expiryReminderDays: days } : { visionReminderDays: days })
+      .where(eq(certifications.id, id));
+  }
+
+  // Magic link methods
+  async createMagicLinkToken(email: string, tokenHash: string, expiresAt: Date): Promise<MagicLinkToken> {
+    const [token] = await db
+      .insert(magicLinkTokens)
+      .values({ email, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  // Marks the token as used in the same statement that checks it, so a link can only be redeemed once
+  async consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | undefined> {
+    const [token] = await db
+      .update(magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(magicLinkTokens.tokenHash, tokenHash),
+          isNull(magicLinkTokens.usedAt),
+          gt(magicLinkTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return token;
+  }
+
+  // Outbound email methods
+  async queueEmail(email: InsertOutboundEmail): Promise<OutboundEmail> {
+    const [queued] = await db.insert(outboundEmails).values(email).returning();
+    return queued;
+  }
+
+  // Take due emails for sending, so two workers never send the same one. The lease covers the send;
+  // an email still marked as sending after it (say the process died) becomes due again.
+  async claimEmails(now: Date, leaseUntil: Date, options: { id?: number; limit: number }): Promise<OutboundEmail[]> {
+    const due = db
+      .select({ id: outboundEmails.id })
+      .from(outboundEmails)
+      .where(
+        and(
+          inArray(outboundEmails.status, ["queued", "sending"]),
+          lte(outboundEmails.nextAttemptAt, now),
+          options.id !== undefined ? eq(outboundEmails.id, options.id) : undefined
+        )
+      )
+      .orderBy(asc(outboundEmails.nextAttemptAt))
+      .limit(options.limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(outboundEmails)
+      .set({
+        status: "sending",
+        attempts: sql`${outboundEmails.attempts} + 1`,
+        nextAttemptAt: leaseUntil,
+      })
+      .where(inArray(outboundEmails.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: number): Promise<void> {
+    await db
+      .update(outboundEmails)
+      .set({ status: "sent", sentAt: new Date(), lastError: null, html: "", text: "" })
+      .where(eq(outboundEmails.id, id));
+  }
+
+  // Without a retry time the email has used its attempts and is left as failed
+  async markEmailFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(outboundEmails)
+      .set(
+        retryAt
+          ? { status: "queued", lastError: error, nextAttemptAt: retryAt }
+          : { status: "failed", lastError: error }
+      )
+      .where(eq(outboundEmails.id, id));
+  }
+
+  // Give a failed email a fresh set of attempts
+  async retryEmail(id: number): Promise<OutboundEmail | undefined> {
+    const [email] = await db
+      .update(outboundEmails)
+      .set({ status: "queued", attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(outboundEmails.id, id), eq(outboundEmails.status, "failed")))
+      .returning();
+    return email;
+  }
+
+  async getRequestEmailStatuses(userId: number): Promise<RequestEmailStatus[]> {
+    const rows = await db
+      .selectDistinctOn([outboundEmails.verificationRequestId], {
+        emailId: outboundEmails.id,
+        verificationRequestId: outboundEmails.verificationRequestId,
+        status: outboundEmails.status,
+        attempts: outboundEmails.attempts,
+        lastError: outboundEmails.lastError,
+      })
+      .from(outboundEmails)
+      .innerJoin(verificationRequests, eq(outboundEmails.verificationRequestId, verificationRequests.id))
+      .where(and(eq(verificationRequests.userId, userId), isNull(verificationRequests.revokedAt)))
+      .orderBy(outboundEmails.verificationRequestId, desc(outboundEmails.id));
+
+    return rows.map((row) => ({ ...row, verificationRequestId: row.verificationRequestId! }));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { LOCALES } from "@shared/schema";
+import type { EmailTemplateData, EmailTemplateName } from "./templates";
+
+// The sender's name heads every email; pinned so MAIL_FROM_NAME doesn't change the snapshots
+vi.mock("./mail", () => ({ MAIL_FROM: { email: "noreply@example.com", name: "OJT Hours Tracker" } }));
+
+const { renderEmail } = await import("./templates");
+
+// Names, locations and reasons are typed by users, so every fixture carries markup that must come out escaped
+const HOSTILE = `<script>alert("x")</script> & O'Brien`;
+
+const entries = [
+  { date: new Date("2025-03-04T12:00:00Z"), location: `Plant ${HOSTILE}`, methods: "Ultrasonic", hours: 8 },
+  { date: new Date("2025-03-05T12:00:00Z"), location: "Refinery", methods: "Magnetic Particle, Radiography", hours: 6.5 },
+];
+
+const at = new Date("2025-03-06T15:30:00Z");
+const url = (path: string) => `https://tracker.example.com${path}`;
+
+const fixtures: { [Name in EmailTemplateName]: EmailTemplateData<Name> } = {
+  "verification-request": {
+    technician: HOSTILE,
+    employeeNumber: "E-42",
+    entries,
+    verificationUrl: url("/verify/token"),
+    dashboardUrl: url("/supervisor"),
+    expiresAt: at,
+  },
+  "verification-code": { technician: HOSTILE, code: "123456", expiresAt: at },
+  "verification-confirmation": { supervisor: HOSTILE, entries },
+  "verification-rejection": { supervisor: HOSTILE, entries, reason: HOSTILE, profileUrl: url("/profile") },
+  "verification-reminder": {
+    technician: HOSTILE,
+    entries,
+    sentAt: at,
+    expiresAt: at,
+    dashboardUrl: url("/supervisor"),
+  },
+  "verification-escalation": {
+    supervisor: HOSTILE,
+    entries,
+    sentAt: at,
+    reminders: 2,
+    profileUrl: url("/profile"),
+  },
+  "certification-reminder": {
+    name: HOSTILE,
+    kind: "expiry",
+    method: "Ultrasonic",
+    level: "Level II",
+    scheme: "SNT-TC-1A",
+    certificateNumber: "C-1001",
+    issuedBy: HOSTILE,
+    dueDate: at,
+    daysLeft: 30,
+    profileUrl: url("/profile"),
+    unsubscribeUrl: url("/api/unsubscribe/1.certificationReminders.sig"),
+  },
+  "weekly-digest": {
+    name: HOSTILE,
+    weekStart: at,
+    trainee: {
+      hours: [{ method: "Ultrasonic", hours: 12.5 }],
+      pendingEntries: 2,
+      pendingHours: 14.5,
+      rejected: [{ date: at, location: HOSTILE, rejectedBy: HOSTILE, reason: HOSTILE }],
+      progress: [{ method: "Ultrasonic", level: "Level II", verifiedHours: 120, requiredHours: 320, percent: 37.5 }],
+    },
+    supervisor: { requests: [{ technician: HOSTILE, sentAt: at, entries: 3, hours: 20 }] },
+    profileUrl: url("/profile"),
+    dashboardUrl: url("/supervisor"),
+    unsubscribeUrl: url("/api/unsubscribe/1.weeklyDigest.sig"),
+  },
+  "magic-link": { loginUrl: url("/login?token=abc&next=1"), expiresInMinutes: 15 },
+  "password-reset": { resetUrl: url("/reset-password/abc") },
+};
+
+const names = Object.keys(fixtures) as EmailTemplateName[];
+
+describe.each(LOCALES)("emails in %s", (locale) => {
+  it.each(names)("renders %s", (name) => {
+    const email = renderEmail(name, locale, fixtures[name]);
+
+    expect(email.html).not.toContain("<script>");
+    expect(email).toMatchSnapshot();
+  });
+});
+
+describe("escaping", () => {
+  it("escapes user text in the HTML and leaves the text variant readable", () => {
+    const email = renderEmail("verification-rejection", "en", fixtures["verification-rejection"]);
+
+    expect(email.html).toContain("&#60;script&#62;alert(&#34;x&#34;)&#60;/script&#62; &#38; O&#39;Brien");
+    expect(email.text).toContain(HOSTILE);
+  });
+
+  it("escapes ampersands in links", () => {
+    const email = renderEmail("magic-link", "en", fixtures["magic-link"]);
+
+    expect(email.html).toContain('href="https://tracker.example.com/login?token=abc&#38;next=1"');
+  });
+
+  it("never puts a script link in a button", () => {
+    const email = renderEmail("password-reset", "es", { resetUrl: "javascript:alert(1)" });
+
+    expect(email.html).not.toContain('href="javascript:');
+    expect(email.html).toContain('href="#"');
+  });
+
+  it("falls back to English for an unknown locale", () => {
+    const data = fixtures["verification-code"];
+
+    expect(renderEmail("verification-code", null, data)).toEqual(renderEmail("verification-code", "en", data));
+  });
+});
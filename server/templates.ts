@@ -0,0 +1,790 @@
+import { type Locale } from "@shared/schema";
+import { MAIL_FROM } from "./mail";
+
+// Emails are written as blocks of plain text, so anything a user typed is escaped when the HTML is built
+// and the text variant comes from the same content
+export type EmailBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "button"; label: string; url: string; hint: string }
+  | { kind: "code"; text: string }
+  // Label and value pairs, e.g. Date: 1/2/2025
+  | { kind: "details"; rows: [string, string][] }
+  | { kind: "table"; columns: string[]; rows: string[][]; footer?: string };
+
+export interface EmailContent {
+  subject: string;
+  blocks: EmailBlock[];
+  // Link in the footer that switches this kind of email off
+  unsubscribe?: { label: string; url: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Dates and numbers written the way the recipient reads them
+export interface EmailFormat {
+  date(value: Date | string): string;
+  time(value: Date | string): string;
+  hours(value: number): string;
+}
+
+const LOCALE_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-ES",
+};
+
+const emailFormat = (locale: Locale): EmailFormat => {
+  const tag = LOCALE_TAGS[locale];
+  return {
+    date: (value) => new Date(value).toLocaleDateString(tag),
+    time: (value) => new Date(value).toLocaleTimeString(tag, { hour: "numeric", minute: "2-digit" }),
+    hours: (value) => value.toLocaleString(tag, { maximumFractionDigits: 2 }),
+  };
+};
+
+// A template writes its content once per locale
+type EmailTemplate<Data> = Record<Locale, (data: Data, format: EmailFormat) => EmailContent>;
+
+// Entry details shared by the verification emails; methods are already labelled
+export interface EmailEntry {
+  date: Date | string;
+  location: string;
+  methods: string;
+  hours: number;
+}
+
+const plural = (count: number, one: string, many: string) => (count === 1 ? one : many);
+
+const verificationRequest: EmailTemplate<{
+  technician: string;
+  employeeNumber: string | null;
+  entries: EmailEntry[];
+  verificationUrl: string;
+  dashboardUrl: string;
+  expiresAt: Date;
+}> = {
+  en: (data, format) => ({
+    subject: `Verification Request for OJT Hours from ${data.technician}${
+      data.entries.length === 1 ? "" : ` (${data.entries.length} entries)`
+    }`,
+    blocks: [
+      { kind: "heading", text: "OJT Hours Verification Request" },
+      {
+        kind: "paragraph",
+        text: `${data.technician}${data.employeeNumber ? ` (Employee #: ${data.employeeNumber})` : ""} has requested your verification for the following OJT hours:`,
+      },
+      {
+        kind: "table",
+        columns: ["Date", "Location", "Method", "Hours"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+        footer: `Total Hours: ${format.hours(data.entries.reduce((sum, entry) => sum + entry.hours, 0))}`,
+      },
+      { kind: "paragraph", text: "Please click the button below to review and verify these hours. You can approve all of them or only some:" },
+      { kind: "button", label: "Verify Hours", url: data.verificationUrl, hint: "Or copy and paste this URL into your browser:" },
+      { kind: "paragraph", text: `This link will expire on ${format.date(data.expiresAt)}. Any newer request for these hours replaces it.` },
+      {
+        kind: "paragraph",
+        text: `If you sign in with this email address, you can also review every request sent to you from your supervisor dashboard: ${data.dashboardUrl}`,
+      },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: `Solicitud de verificación de horas OJT de ${data.technician}${
+      data.entries.length === 1 ? "" : ` (${data.entries.length} registros)`
+    }`,
+    blocks: [
+      { kind: "heading", text: "Solicitud de verificación de horas OJT" },
+      {
+        kind: "paragraph",
+        text: `${data.technician}${data.employeeNumber ? ` (N.º de empleado: ${data.employeeNumber})` : ""} ha solicitado que verifique las siguientes horas OJT:`,
+      },
+      {
+        kind: "table",
+        columns: ["Fecha", "Ubicación", "Método", "Horas"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+        footer: `Total de horas: ${format.hours(data.entries.reduce((sum, entry) => sum + entry.hours, 0))}`,
+      },
+      { kind: "paragraph", text: "Pulse el botón para revisar y verificar estas horas. Puede aprobarlas todas o solo algunas:" },
+      { kind: "button", label: "Verificar horas", url: data.verificationUrl, hint: "O copie y pegue esta URL en su navegador:" },
+      { kind: "paragraph", text: `Este enlace caduca el ${format.date(data.expiresAt)}. Cualquier solicitud más reciente para estas horas lo sustituye.` },
+      {
+        kind: "paragraph",
+        text: `Si inicia sesión con esta dirección de correo, también puede revisar todas las solicitudes que le han enviado desde su panel de supervisor: ${data.dashboardUrl}`,
+      },
+    ],
+  }),
+};
+
+const verificationCode: EmailTemplate<{ technician: string; code: string; expiresAt: Date }> = {
+  en: (data, format) => ({
+    subject: `OJT Verification Code: ${data.code}`,
+    blocks: [
+      { kind: "heading", text: "Your Verification Code" },
+      { kind: "paragraph", text: `Enter this code to sign the OJT hours submitted by ${data.technician}:` },
+      { kind: "code", text: data.code },
+      {
+        kind: "paragraph",
+        text: `The code expires at ${format.time(data.expiresAt)}. If you did not open a verification link, you can ignore this email.`,
+      },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: `Código de verificación OJT: ${data.code}`,
+    blocks: [
+      { kind: "heading", text: "Su código de verificación" },
+      { kind: "paragraph", text: `Introduzca este código para firmar las horas OJT enviadas por ${data.technician}:` },
+      { kind: "code", text: data.code },
+      {
+        kind: "paragraph",
+        text: `El código caduca a las ${format.time(data.expiresAt)}. Si no abrió ningún enlace de verificación, puede ignorar este correo.`,
+      },
+    ],
+  }),
+};
+
+const verificationConfirmation: EmailTemplate<{ supervisor: string; entries: EmailEntry[] }> = {
+  en: (data, format) => ({
+    subject: "OJT Hours Verified",
+    blocks: [
+      { kind: "heading", text: "OJT Hours Verified" },
+      { kind: "paragraph", text: `Good news! Your OJT hours have been verified by ${data.supervisor}:` },
+      ...data.entries.map((entry): EmailBlock => ({
+        kind: "details",
+        rows: [
+          ["Date", format.date(entry.date)],
+          ["Location", entry.location],
+          ["Method", entry.methods],
+          ["Hours", format.hours(entry.hours)],
+          ["Verified By", data.supervisor],
+        ],
+      })),
+      {
+        kind: "paragraph",
+        text: "These hours have been added to your verified OJT log. You can view and export your log from your profile page.",
+      },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: "Horas OJT verificadas",
+    blocks: [
+      { kind: "heading", text: "Horas OJT verificadas" },
+      { kind: "paragraph", text: `¡Buenas noticias! ${data.supervisor} ha verificado sus horas OJT:` },
+      ...data.entries.map((entry): EmailBlock => ({
+        kind: "details",
+        rows: [
+          ["Fecha", format.date(entry.date)],
+          ["Ubicación", entry.location],
+          ["Método", entry.methods],
+          ["Horas", format.hours(entry.hours)],
+          ["Verificado por", data.supervisor],
+        ],
+      })),
+      {
+        kind: "paragraph",
+        text: "Estas horas se han añadido a su registro OJT verificado. Puede consultarlo y exportarlo desde su página de perfil.",
+      },
+    ],
+  }),
+};
+
+const verificationRejection: EmailTemplate<{
+  supervisor: string;
+  entries: EmailEntry[];
+  reason: string;
+  profileUrl: string;
+}> = {
+  en: (data, format) => ({
+    subject: "OJT Hours Returned for Correction",
+    blocks: [
+      { kind: "heading", text: "OJT Hours Not Verified" },
+      { kind: "paragraph", text: `${data.supervisor} did not verify the following OJT hours:` },
+      ...data.entries.map((entry): EmailBlock => ({
+        kind: "details",
+        rows: [
+          ["Date", format.date(entry.date)],
+          ["Location", entry.location],
+          ["Method", entry.methods],
+          ["Hours", format.hours(entry.hours)],
+        ],
+      })),
+      { kind: "details", rows: [["Reason", data.reason]] },
+      {
+        kind: "paragraph",
+        text: `Please correct the ${plural(data.entries.length, "entry", "entries")} on your profile page and request verification again.`,
+      },
+      { kind: "button", label: "Open My OJT Log", url: data.profileUrl, hint: "Or open:" },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: "Horas OJT devueltas para corrección",
+    blocks: [
+      { kind: "heading", text: "Horas OJT no verificadas" },
+      { kind: "paragraph", text: `${data.supervisor} no verificó las siguientes horas OJT:` },
+      ...data.entries.map((entry): EmailBlock => ({
+        kind: "details",
+        rows: [
+          ["Fecha", format.date(entry.date)],
+          ["Ubicación", entry.location],
+          ["Método", entry.methods],
+          ["Horas", format.hours(entry.hours)],
+        ],
+      })),
+      { kind: "details", rows: [["Motivo", data.reason]] },
+      {
+        kind: "paragraph",
+        text: `Corrija ${plural(data.entries.length, "el registro", "los registros")} en su página de perfil y vuelva a solicitar la verificación.`,
+      },
+      { kind: "button", label: "Abrir mi registro OJT", url: data.profileUrl, hint: "O abra:" },
+    ],
+  }),
+};
+
+const verificationReminder: EmailTemplate<{
+  technician: string;
+  entries: EmailEntry[];
+  sentAt: Date;
+  expiresAt: Date;
+  dashboardUrl: string;
+}> = {
+  en: (data, format) => ({
+    subject: `Reminder: OJT Hours Awaiting Your Verification from ${data.technician}`,
+    blocks: [
+      { kind: "heading", text: "OJT Hours Still Awaiting Verification" },
+      {
+        kind: "paragraph",
+        text: `${data.technician} is still waiting for you to verify the OJT hours they sent on ${format.date(data.sentAt)}:`,
+      },
+      {
+        kind: "table",
+        columns: ["Date", "Location", "Method", "Hours"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+      },
+      {
+        kind: "paragraph",
+        text: `Use the Verify Hours link in the original email, which works until ${format.date(data.expiresAt)}. If you sign in with this email address, you can also review the request from your supervisor dashboard.`,
+      },
+      { kind: "button", label: "Open Supervisor Dashboard", url: data.dashboardUrl, hint: "Or open:" },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: `Recordatorio: horas OJT de ${data.technician} pendientes de su verificación`,
+    blocks: [
+      { kind: "heading", text: "Horas OJT aún pendientes de verificación" },
+      {
+        kind: "paragraph",
+        text: `${data.technician} sigue esperando que verifique las horas OJT que envió el ${format.date(data.sentAt)}:`,
+      },
+      {
+        kind: "table",
+        columns: ["Fecha", "Ubicación", "Método", "Horas"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+      },
+      {
+        kind: "paragraph",
+        text: `Use el enlace Verificar horas del correo original, válido hasta el ${format.date(data.expiresAt)}. Si inicia sesión con esta dirección de correo, también puede revisar la solicitud desde su panel de supervisor.`,
+      },
+      { kind: "button", label: "Abrir panel de supervisor", url: data.dashboardUrl, hint: "O abra:" },
+    ],
+  }),
+};
+
+const verificationEscalation: EmailTemplate<{
+  supervisor: string;
+  entries: EmailEntry[];
+  sentAt: Date;
+  reminders: number;
+  profileUrl: string;
+}> = {
+  en: (data, format) => ({
+    subject: "Your Supervisor Hasn't Responded to Your Verification Request",
+    blocks: [
+      { kind: "heading", text: "No Response to Your Verification Request" },
+      {
+        kind: "paragraph",
+        text: `${data.supervisor} hasn't responded to the verification request you sent on ${format.date(data.sentAt)}, even after ${data.reminders} ${plural(data.reminders, "reminder", "reminders")}:`,
+      },
+      {
+        kind: "table",
+        columns: ["Date", "Location", "Method", "Hours"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+      },
+      {
+        kind: "paragraph",
+        text: "Consider asking another supervisor: cancel the request from your OJT log and request verification again. No more reminders will be sent for this request.",
+      },
+      { kind: "button", label: "Open My OJT Log", url: data.profileUrl, hint: "Or open:" },
+    ],
+  }),
+  es: (data, format) => ({
+    subject: "Su supervisor no ha respondido a su solicitud de verificación",
+    blocks: [
+      { kind: "heading", text: "Sin respuesta a su solicitud de verificación" },
+      {
+        kind: "paragraph",
+        text: `${data.supervisor} no ha respondido a la solicitud de verificación que envió el ${format.date(data.sentAt)}, a pesar de ${data.reminders} ${plural(data.reminders, "recordatorio", "recordatorios")}:`,
+      },
+      {
+        kind: "table",
+        columns: ["Fecha", "Ubicación", "Método", "Horas"],
+        rows: data.entries.map((entry) => [format.date(entry.date), entry.location, entry.methods, format.hours(entry.hours)]),
+      },
+      {
+        kind: "paragraph",
+        text: "Considere pedírselo a otro supervisor: cancele la solicitud desde su registro OJT y vuelva a solicitar la verificación. No se enviarán más recordatorios para esta solicitud.",
+      },
+      { kind: "button", label: "Abrir mi registro OJT", url: data.profileUrl, hint: "O abra:" },
+    ],
+  }),
+};
+
+const certificationReminder: EmailTemplate<{
+  name: string | null;
+  kind: "expiry" | "vision";
+  method: string;
+  level: string;
+  scheme: string;
+  certificateNumber: string;
+  issuedBy: string;
+  dueDate: Date;
+  daysLeft: number;
+  profileUrl: string;
+  unsubscribeUrl: string;
+}> = {
+  en: (data, format) => {
+    const title = data.kind === "expiry" ? "Certification Renewal Reminder" : "Vision Exam Reminder";
+    const what =
+      data.kind === "expiry"
+        ? `Your ${data.method} ${data.level} certification`
+        : `The vision exam for your ${data.method} ${data.level} certification`;
+    const when =
+      data.daysLeft > 0
+        ? `is due on ${format.date(data.dueDate)} (${data.daysLeft} ${plural(data.daysLeft, "day", "days")} from now)`
+        : `lapsed on ${format.date(data.dueDate)}`;
+
+    return {
+      subject: title,
+      blocks: [
+        { kind: "heading", text: title },
+        { kind: "paragraph", text: `Hello ${data.name || "there"},` },
+        { kind: "paragraph", text: `${what} ${when}.` },
+        {
+          kind: "details",
+          rows: [
+            ["Scheme", data.scheme],
+            ["Certificate Number", data.certificateNumber],
+            ["Issued By", data.issuedBy],
+          ],
+        },
+        { kind: "paragraph", text: "Once renewed, update the dates on your profile page so reminders stop." },
+        { kind: "button", label: "Open My Profile", url: data.profileUrl, hint: "Or open:" },
+      ],
+      unsubscribe: { label: "Stop certification reminders", url: data.unsubscribeUrl },
+    };
+  },
+  es: (data, format) => {
+    const title = data.kind === "expiry" ? "Recordatorio de renovación de certificación" : "Recordatorio de examen de visión";
+    const what =
+      data.kind === "expiry"
+        ? `Su certificación ${data.method} ${data.level}`
+        : `El examen de visión de su certificación ${data.method} ${data.level}`;
+    const when =
+      data.daysLeft > 0
+        ? `vence el ${format.date(data.dueDate)} (dentro de ${data.daysLeft} ${plural(data.daysLeft, "día", "días")})`
+        : `venció el ${format.date(data.dueDate)}`;
+
+    return {
+      subject: title,
+      blocks: [
+        { kind: "heading", text: title },
+        { kind: "paragraph", text: `Hola${data.name ? ` ${data.name}` : ""}:` },
+        { kind: "paragraph", text: `${what} ${when}.` },
+        {
+          kind: "details",
+          rows: [
+            ["Esquema", data.scheme],
+            ["Número de certificado", data.certificateNumber],
+            ["Emitido por", data.issuedBy],
+          ],
+        },
+        { kind: "paragraph", text: "Una vez renovada, actualice las fechas en su página de perfil para dejar de recibir recordatorios." },
+        { kind: "button", label: "Abrir mi perfil", url: data.profileUrl, hint: "O abra:" },
+      ],
+      unsubscribe: { label: "Dejar de recibir recordatorios de certificación", url: data.unsubscribeUrl },
+    };
+  },
+};
+
+// Hours, verifications and certification progress for a trainee, and requests awaiting a supervisor.
+// A section is left out for users it doesn't apply to.
+export interface DigestData {
+  name: string | null;
+  weekStart: Date;
+  trainee: {
+    hours: { method: string; hours: number }[];
+    pendingEntries: number;
+    pendingHours: number;
+    rejected: { date: Date | string; location: string; rejectedBy: string; reason: string }[];
+    progress: { method: string; level: string; verifiedHours: number; requiredHours: number; percent: number }[];
+  } | null;
+  supervisor: {
+    requests: { technician: string; sentAt: Date | string; entries: number; hours: number }[];
+  } | null;
+  profileUrl: string;
+  dashboardUrl: string;
+  unsubscribeUrl: string;
+}
+
+const weeklyDigest: EmailTemplate<DigestData> = {
+  en: (data, format) => {
+    const blocks: EmailBlock[] = [
+      { kind: "heading", text: "Your Weekly OJT Summary" },
+      { kind: "paragraph", text: `Hello ${data.name || "there"}, here is your summary for the week since ${format.date(data.weekStart)}.` },
+    ];
+
+    if (data.trainee) {
+      const { hours, pendingEntries, pendingHours, rejected, progress } = data.trainee;
+      blocks.push({ kind: "heading", text: "Hours Logged This Week" });
+      blocks.push(
+        hours.length > 0
+          ? {
+              kind: "table",
+              columns: ["Method", "Hours"],
+              rows: hours.map((line) => [line.method, format.hours(line.hours)]),
+              footer: `Total Hours: ${format.hours(hours.reduce((sum, line) => sum + line.hours, 0))}`,
+            }
+          : { kind: "paragraph", text: "No hours logged this week." },
+      );
+
+      blocks.push({ kind: "heading", text: "Verifications" });
+      blocks.push({
+        kind: "paragraph",
+        text:
+          pendingEntries > 0
+            ? `${pendingEntries} ${plural(pendingEntries, "entry", "entries")} (${format.hours(pendingHours)} hours) awaiting verification.`
+            : "No entries awaiting verification.",
+      });
+      if (rejected.length > 0) {
+        blocks.push({ kind: "paragraph", text: `${rejected.length} ${plural(rejected.length, "entry was", "entries were")} returned for correction:` });
+        blocks.push({
+          kind: "table",
+          columns: ["Date", "Location", "Rejected By", "Reason"],
+          rows: rejected.map((entry) => [format.date(entry.date), entry.location, entry.rejectedBy, entry.reason]),
+        });
+      }
+
+      if (progress.length > 0) {
+        blocks.push({ kind: "heading", text: "Certification Progress" });
+        blocks.push({
+          kind: "table",
+          columns: ["Method", "Next Level", "Verified Hours", "%"],
+          rows: progress.map((line) => [
+            line.method,
+            line.level,
+            `${format.hours(line.verifiedHours)} / ${format.hours(line.requiredHours)}`,
+            format.hours(Math.floor(line.percent)),
+          ]),
+        });
+      }
+      blocks.push({ kind: "button", label: "Open My OJT Log", url: data.profileUrl, hint: "Or open:" });
+    }
+
+    if (data.supervisor) {
+      const { requests } = data.supervisor;
+      blocks.push({ kind: "heading", text: "Awaiting Your Verification" });
+      if (requests.length > 0) {
+        blocks.push({
+          kind: "table",
+          columns: ["Trainee", "Sent", "Entries", "Hours"],
+          rows: requests.map((request) => [
+            request.technician,
+            format.date(request.sentAt),
+            String(request.entries),
+            format.hours(request.hours),
+          ]),
+        });
+        blocks.push({ kind: "button", label: "Open Supervisor Dashboard", url: data.dashboardUrl, hint: "Or open:" });
+      } else {
+        blocks.push({ kind: "paragraph", text: "No requests are waiting for you." });
+      }
+    }
+
+    return {
+      subject: "Your Weekly OJT Summary",
+      blocks,
+      unsubscribe: { label: "Unsubscribe from the weekly summary", url: data.unsubscribeUrl },
+    };
+  },
+  es: (data, format) => {
+    const blocks: EmailBlock[] = [
+      { kind: "heading", text: "Su resumen semanal de OJT" },
+      { kind: "paragraph", text: `Hola${data.name ? ` ${data.name}` : ""}, este es su resumen de la semana desde el ${format.date(data.weekStart)}.` },
+    ];
+
+    if (data.trainee) {
+      const { hours, pendingEntries, pendingHours, rejected, progress } = data.trainee;
+      blocks.push({ kind: "heading", text: "Horas registradas esta semana" });
+      blocks.push(
+        hours.length > 0
+          ? {
+              kind: "table",
+              columns: ["Método", "Horas"],
+              rows: hours.map((line) => [line.method, format.hours(line.hours)]),
+              footer: `Total de horas: ${format.hours(hours.reduce((sum, line) => sum + line.hours, 0))}`,
+            }
+          : { kind: "paragraph", text: "No ha registrado horas esta semana." },
+      );
+
+      blocks.push({ kind: "heading", text: "Verificaciones" });
+      blocks.push({
+        kind: "paragraph",
+        text:
+          pendingEntries > 0
+            ? `${pendingEntries} ${plural(pendingEntries, "registro", "registros")} (${format.hours(pendingHours)} horas) pendientes de verificación.`
+            : "No hay registros pendientes de verificación.",
+      });
+      if (rejected.length > 0) {
+        blocks.push({
+          kind: "paragraph",
+          text: `${rejected.length} ${plural(rejected.length, "registro fue devuelto", "registros fueron devueltos")} para corrección:`,
+        });
+        blocks.push({
+          kind: "table",
+          columns: ["Fecha", "Ubicación", "Rechazado por", "Motivo"],
+          rows: rejected.map((entry) => [format.date(entry.date), entry.location, entry.rejectedBy, entry.reason]),
+        });
+      }
+
+      if (progress.length > 0) {
+        blocks.push({ kind: "heading", text: "Progreso hacia la certificación" });
+        blocks.push({
+          kind: "table",
+          columns: ["Método", "Siguiente nivel", "Horas verificadas", "%"],
+          rows: progress.map((line) => [
+            line.method,
+            line.level,
+            `${format.hours(line.verifiedHours)} / ${format.hours(line.requiredHours)}`,
+            format.hours(Math.floor(line.percent)),
+          ]),
+        });
+      }
+      blocks.push({ kind: "button", label: "Abrir mi registro OJT", url: data.profileUrl, hint: "O abra:" });
+    }
+
+    if (data.supervisor) {
+      const { requests } = data.supervisor;
+      blocks.push({ kind: "heading", text: "Pendientes de su verificación" });
+      if (requests.length > 0) {
+        blocks.push({
+          kind: "table",
+          columns: ["Aprendiz", "Enviada", "Registros", "Horas"],
+          rows: requests.map((request) => [
+            request.technician,
+            format.date(request.sentAt),
+            String(request.entries),
+            format.hours(request.hours),
+          ]),
+        });
+        blocks.push({ kind: "button", label: "Abrir panel de supervisor", url: data.dashboardUrl, hint: "O abra:" });
+      } else {
+        blocks.push({ kind: "paragraph", text: "No tiene solicitudes pendientes." });
+      }
+    }
+
+    return {
+      subject: "Su resumen semanal de OJT",
+      blocks,
+      unsubscribe: { label: "Darse de baja del resumen semanal", url: data.unsubscribeUrl },
+    };
+  },
+};
+
+const magicLink: EmailTemplate<{ loginUrl: string; expiresInMinutes: number }> = {
+  en: (data) => ({
+    subject: "Your OJT Hours Tracker Login Link",
+    blocks: [
+      { kind: "heading", text: "Log In to OJT Hours Tracker" },
+      { kind: "paragraph", text: "Click the button below to log in to your account:" },
+      { kind: "button", label: "Log In", url: data.loginUrl, hint: "Or copy and paste this URL into your browser:" },
+      { kind: "paragraph", text: `This link will expire in ${data.expiresInMinutes} minutes and can only be used once.` },
+    ],
+  }),
+  es: (data) => ({
+    subject: "Su enlace de acceso a OJT Hours Tracker",
+    blocks: [
+      { kind: "heading", text: "Acceda a OJT Hours Tracker" },
+      { kind: "paragraph", text: "Pulse el botón para iniciar sesión en su cuenta:" },
+      { kind: "button", label: "Iniciar sesión", url: data.loginUrl, hint: "O copie y pegue esta URL en su navegador:" },
+      { kind: "paragraph", text: `Este enlace caduca en ${data.expiresInMinutes} minutos y solo puede usarse una vez.` },
+    ],
+  }),
+};
+
+const passwordReset: EmailTemplate<{ resetUrl: string }> = {
+  en: (data) => ({
+    subject: "Reset your OJT Hours Tracker password",
+    blocks: [
+      { kind: "heading", text: "Password Reset" },
+      { kind: "paragraph", text: "You recently requested to reset your password. Click the button below to reset it:" },
+      { kind: "button", label: "Reset Password", url: data.resetUrl, hint: "Or copy and paste this URL into your browser:" },
+      {
+        kind: "paragraph",
+        text: "This link will expire in 1 hour. If you did not request a password reset, you can safely ignore this email.",
+      },
+    ],
+  }),
+  es: (data) => ({
+    subject: "Restablezca su contraseña de OJT Hours Tracker",
+    blocks: [
+      { kind: "heading", text: "Restablecer contraseña" },
+      { kind: "paragraph", text: "Ha solicitado restablecer su contraseña. Pulse el botón para hacerlo:" },
+      { kind: "button", label: "Restablecer contraseña", url: data.resetUrl, hint: "O copie y pegue esta URL en su navegador:" },
+      {
+        kind: "paragraph",
+        text: "Este enlace caduca en 1 hora. Si no solicitó restablecer la contraseña, puede ignorar este correo.",
+      },
+    ],
+  }),
+};
+
+export const emailTemplates = {
+  "verification-request": verificationRequest,
+  "verification-code": verificationCode,
+  "verification-confirmation": verificationConfirmation,
+  "verification-rejection": verificationRejection,
+  "verification-reminder": verificationReminder,
+  "verification-escalation": verificationEscalation,
+  "certification-reminder": certificationReminder,
+  "weekly-digest": weeklyDigest,
+  "magic-link": magicLink,
+  "password-reset": passwordReset,
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type EmailTemplateData<Name extends EmailTemplateName> = Parameters<
+  (typeof emailTemplates)[Name]["en"]
+>[0];
+
+const BRAND_COLOR = "#42be65";
+const PANEL_STYLE = "background-color: #f4f4f4; padding: 15px; border-radius: 4px; margin: 20px 0;";
+const CELL_STYLE = "padding: 6px; border-bottom: 1px solid #ddd;";
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Only web links are put in buttons, so a crafted value can't become a script link
+const safeUrl = (url: string) => (/^https?:\/\//i.test(url) ? escapeHtml(url) : "#");
+
+// Hours line up on the right
+const isNumberColumn = (columns: string[], index: number) => index === columns.length - 1;
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.kind) {
+    case "heading":
+      return `<h2>${escapeHtml(block.text)}</h2>`;
+    case "paragraph":
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case "button":
+      return `
+      <p>
+        <a href="${safeUrl(block.url)}" style="display: inline-block; padding: 10px 20px; background-color: ${BRAND_COLOR}; color: white; text-decoration: none; border-radius: 4px;">${escapeHtml(block.label)}</a>
+      </p>
+      <p>${escapeHtml(block.hint)}</p>
+      <p>${escapeHtml(block.url)}</p>`;
+    case "code":
+      return `<p style="font-size: 28px; font-weight: bold; letter-spacing: 6px;">${escapeHtml(block.text)}</p>`;
+    case "details":
+      return `
+      <div style="${PANEL_STYLE}">
+        ${block.rows.map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`).join("\n        ")}
+      </div>`;
+    case "table": {
+      const align = (index: number) => (isNumberColumn(block.columns, index) ? "right" : "left");
+      const head = block.columns
+        .map((column, i) => `<th style="padding: 6px; text-align: ${align(i)};">${escapeHtml(column)}</th>`)
+        .join("");
+      const body = block.rows
+        .map(
+          (row) =>
+            `<tr>${row
+              .map((cell, i) => `<td style="${CELL_STYLE} text-align: ${align(i)};">${escapeHtml(cell)}</td>`)
+              .join("")}</tr>`,
+        )
+        .join("\n            ");
+      return `
+      <div style="${PANEL_STYLE}">
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          <thead><tr>${head}</tr></thead>
+          <tbody>
+            ${body}
+          </tbody>
+        </table>
+        ${block.footer ? `<p><strong>${escapeHtml(block.footer)}</strong></p>` : ""}
+      </div>`;
+    }
+  }
+}
+
+function blockText(block: EmailBlock): string {
+  switch (block.kind) {
+    case "heading":
+      return block.text.toUpperCase();
+    case "paragraph":
+    case "code":
+      return block.text;
+    case "button":
+      return `${block.label}: ${block.url}`;
+    case "details":
+      return block.rows.map(([label, value]) => `${label}: ${value}`).join("\n");
+    case "table": {
+      const rows = block.rows.map((row) => `- ${row.join(" | ")}`);
+      return [block.columns.join(" | "), ...rows, ...(block.footer ? [block.footer] : [])].join("\n");
+    }
+  }
+}
+
+// Every email shares the sender's name as a header and the same footer
+function layoutHtml(content: EmailContent): string {
+  return `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <p style="color: ${BRAND_COLOR}; font-weight: bold; margin: 0;">${escapeHtml(MAIL_FROM.name)}</p>
+      ${content.blocks.map(blockHtml).join("\n      ")}
+      <hr style="border: none; border-top: 1px solid #ddd; margin-top: 30px;" />
+      <p style="color: #888; font-size: 12px;">${escapeHtml(MAIL_FROM.name)}${
+        content.unsubscribe
+          ? ` &middot; <a href="${safeUrl(content.unsubscribe.url)}" style="color: #888;">${escapeHtml(content.unsubscribe.label)}</a>`
+          : ""
+      }</p>
+    </div>`;
+}
+
+function layoutText(content: EmailContent): string {
+  return [
+    MAIL_FROM.name,
+    "",
+    ...content.blocks.map(blockText).flatMap((text) => [text, ""]),
+    "--",
+    MAIL_FROM.name,
+    ...(content.unsubscribe ? [`${content.unsubscribe.label}: ${content.unsubscribe.url}`] : []),
+  ].join("\n");
+}
+
+// Write an email in the recipient's language; unknown locales fall back to English
+export function renderEmail<Name extends EmailTemplateName>(
+  name: Name,
+  locale: Locale | null | undefined,
+  data: EmailTemplateData<Name>,
+): RenderedEmail {
+  const language = locale && locale in LOCALE_TAGS ? locale : "en";
+  const write = emailTemplates[name][language] as (data: EmailTemplateData<Name>, format: EmailFormat) => EmailContent;
+  const content = write(data, emailFormat(language));
+
+  return {
+    subject: content.subject,
+    html: layoutHtml(content),
+    text: layoutText(content),
+  };
+}
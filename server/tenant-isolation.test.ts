@@ -0,0 +1,227 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { type AddressInfo } from "net";
+import { type Server } from "http";
+import { hash } from "bcrypt";
+import { type Entry, type User } from "@shared/schema";
+import { Roles, type Role } from "@shared/permissions";
+
+// Two organizations and one technician without any, with an admin, an auditor and a trainee in each.
+// Routes run against an in-memory storage; sessions live in memory instead of Postgres.
+const ORG_A = 1;
+const ORG_B = 2;
+const PASSWORD = "correct horse";
+
+const fixtures = vi.hoisted(() => ({ users: [] as User[], entries: [] as Entry[] }));
+
+const user = (id: number, organizationId: number | null, roles: Role[]) =>
+  ({
+    id,
+    email: `user${id}@example.com`,
+    name: `User ${id}`,
+    organizationId,
+    roles,
+    emailVerifiedAt: new Date(),
+  }) as User;
+
+const entry = (id: number, userId: number) =>
+  ({ id, userId, date: new Date("2024-03-04"), location: "Plant", method: "UT", hours: 8, verified: false }) as Entry;
+
+const ownerOf = (item: Entry) => fixtures.users.find((candidate) => candidate.id === item.userId);
+
+vi.mock("./db", () => ({ pool: {}, db: {} }));
+
+vi.mock("connect-pg-simple", () => ({
+  default: (session: typeof import("express-session")) => session.MemoryStore,
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(async (id: number) => fixtures.users.find((candidate) => candidate.id === id)),
+    getUserByEmail: vi.fn(async (email: string) =>
+      fixtures.users.find((candidate) => candidate.email === email),
+    ),
+    getUsers: vi.fn(async (organizationId?: number) =>
+      fixtures.users.filter(
+        (candidate) => organizationId === undefined || candidate.organizationId === organizationId,
+      ),
+    ),
+    getAllEntries: vi.fn(async (organizationId?: number) =>
+      fixtures.entries.filter(
+        (item) => organizationId === undefined || ownerOf(item)?.organizationId === organizationId,
+      ),
+    ),
+    getEntry: vi.fn(async (id: number) => fixtures.entries.find((item) => item.id === id)),
+    getEntriesForExport: vi.fn(async () => []),
+    getMethods: vi.fn(async () => [{ code: "UT", label: "Ultrasonic", active: true, sortOrder: 1 }]),
+    getCertificationRequirements: vi.fn(async () => [{}]),
+    migrateLegacyRoles: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock("./reminders", () => ({
+  scheduleCertificationReminders: vi.fn(),
+  scheduleVerificationReminders: vi.fn(),
+}));
+
+vi.mock("./digest", () => ({ renderDigest: vi.fn(), scheduleWeeklyDigests: vi.fn() }));
+
+vi.mock("./mail", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./mail")>()),
+  scheduleEmailQueue: vi.fn(),
+}));
+
+const { registerRoutes } = await import("./routes");
+const { storage } = await import("./storage");
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  // The startup admin check has no database here; keep its error out of the test output
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  const password = await hash(PASSWORD, 4);
+  fixtures.users.push(
+    { ...user(1, null, [Roles.ADMIN]), password },
+    { ...user(2, ORG_A, [Roles.ORG_ADMIN]), password },
+    { ...user(3, ORG_A, [Roles.AUDITOR]), password },
+    { ...user(4, ORG_A, [Roles.TRAINEE]), password },
+    { ...user(5, ORG_B, [Roles.ORG_ADMIN]), password },
+    { ...user(6, ORG_B, [Roles.TRAINEE]), password },
+    { ...user(7, null, [Roles.TRAINEE]), password },
+    { ...user(8, null, [Roles.ORG_ADMIN]), password },
+  );
+  fixtures.entries.push(entry(40, 4), entry(60, 6), entry(70, 7));
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  vi.mocked(storage.getEntriesForExport).mockClear();
+});
+
+// Log in as the fixture user and return a fetch bound to their session
+async function signIn(id: number) {
+  const res = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email: `user${id}@example.com`, password: PASSWORD }),
+  });
+  expect(res.status).toBe(200);
+  const cookie = res.headers.get("set-cookie")!.split(";")[0];
+  return (path: string) => fetch(`${baseUrl}${path}`, { headers: { cookie } });
+}
+
+const ids = (items: { id: number }[]) => items.map((item) => item.id).sort((a, b) => a - b);
+
+describe("admin user listing", () => {
+  it("shows an organization admin only their organization's users", async () => {
+    const get = await signIn(2);
+    const res = await get("/api/admin/users");
+    expect(res.status).toBe(200);
+    expect(ids(await res.json())).toEqual([2, 3, 4]);
+  });
+
+  it("shows a global admin every user", async () => {
+    const get = await signIn(1);
+    const res = await get("/api/admin/users");
+    expect(ids(await res.json())).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("refuses an organization admin who has no organization", async () => {
+    const get = await signIn(8);
+    const res = await get("/api/admin/users");
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("admin entries", () => {
+  it("shows an auditor only entries from their organization", async () => {
+    const get = await signIn(3);
+    const res = await get("/api/admin/entries");
+    expect(res.status).toBe(200);
+    expect(ids(await res.json())).toEqual([40]);
+  });
+
+  it("shows the other organization only its own entries", async () => {
+    const get = await signIn(5);
+    const res = await get("/api/admin/entries");
+    expect(ids(await res.json())).toEqual([60]);
+  });
+
+  it("shows a global admin entries from every organization and none", async () => {
+    const get = await signIn(1);
+    const res = await get("/api/admin/entries");
+    expect(ids(await res.json())).toEqual([40, 60, 70]);
+  });
+});
+
+describe("admin entry export", () => {
+  it("limits an organization admin's export to their organization", async () => {
+    const get = await signIn(5);
+    const res = await get("/api/admin/entries/export?format=csv");
+    expect(res.status).toBe(200);
+    expect(storage.getEntriesForExport).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: ORG_B }),
+    );
+  });
+
+  it("exports every organization for a global admin", async () => {
+    const get = await signIn(1);
+    await get("/api/admin/entries/export?format=csv");
+    expect(storage.getEntriesForExport).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: undefined }),
+    );
+  });
+
+  it("refuses an organization admin who has no organization", async () => {
+    const get = await signIn(8);
+    const res = await get("/api/admin/entries/export?format=csv");
+    expect(res.status).toBe(403);
+    expect(storage.getEntriesForExport).not.toHaveBeenCalled();
+  });
+});
+
+describe("entry signature checks", () => {
+  // Entry 40 is unsigned, so getting past the access check answers 404 rather than 403
+  it("lets an auditor check entries in their organization", async () => {
+    const get = await signIn(3);
+    const res = await get("/api/entries/40/signature");
+    expect(res.status).toBe(404);
+  });
+
+  it("refuses an auditor checking another organization's entry", async () => {
+    const get = await signIn(3);
+    const res = await get("/api/entries/60/signature");
+    expect(res.status).toBe(403);
+  });
+
+  it("refuses an organization admin checking an entry of a user without an organization", async () => {
+    const get = await signIn(2);
+    const res = await get("/api/entries/70/signature");
+    expect(res.status).toBe(403);
+  });
+
+  it("refuses a trainee checking a colleague's entry", async () => {
+    const get = await signIn(6);
+    const res = await get("/api/entries/40/signature");
+    expect(res.status).toBe(403);
+  });
+
+  it("lets a global admin check any entry", async () => {
+    const get = await signIn(1);
+    const res = await get("/api/entries/60/signature");
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,25 @@
+import { createHash, randomBytes, randomInt } from "crypto";
+
+// Generate a random URL-safe token to be sent to the user
+export function generateToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// Hash a token for storage so a database leak does not expose usable links
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Generate a six-digit one-time code for a verifier to type back in
+export function generateVerificationCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Unambiguous characters only, so a printed ID can be typed back in
+const DOCUMENT_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Generate a short document ID such as "K7RM2-QX9PD" for exported logs
+export function generateDocumentId(): string {
+  const chars = Array.from(randomBytes(10), (byte) => DOCUMENT_ID_ALPHABET[byte % DOCUMENT_ID_ALPHABET.length]);
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NOTIFICATION_TYPES, type NotificationType } from "@shared/schema";
+import { getBaseUrl } from "./email";
+
+// Unsubscribe links work without signing in, so each one carries an HMAC of the user and the email type.
+// Changing UNSUBSCRIBE_SECRET (or SESSION_SECRET, used when it isn't set) breaks links already sent.
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || "dev-secret";
+
+const signature = (userId: number, type: NotificationType) =>
+  createHmac("sha256", UNSUBSCRIBE_SECRET).update(`${userId}.${type}`).digest("base64url");
+
+export function unsubscribeToken(userId: number, type: NotificationType): string {
+  return `${userId}.${type}.${signature(userId, type)}`;
+}
+
+export function unsubscribeUrl(userId: number, type: NotificationType): string {
+  return `${getBaseUrl()}/api/unsubscribe/${unsubscribeToken(userId, type)}`;
+}
+
+// The user and email type a token was issued for, if it is genuine
+export function readUnsubscribeToken(token: string): { userId: number; type: NotificationType } | undefined {
+  const [id, type, given] = token.split(".");
+  const userId = parseInt(id);
+  if (!userId || !given || !NOTIFICATION_TYPES.includes(type as NotificationType)) return undefined;
+
+  const expected = Buffer.from(signature(userId, type as NotificationType));
+  const actual = Buffer.from(given);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  return { userId, type: type as NotificationType };
+}
@@ -0,0 +1,126 @@
+import { type CertificationRequirement, type Entry } from "./schema";
+import { entryLines } from "./methods";
+
+export const CERTIFICATION_LEVELS = ["Level I", "Level II"] as const;
+
+// Levels a supervisor may hold, lowest first
+export const SUPERVISOR_LEVELS = ["Level I", "Level II", "Level III"] as const;
+
+// Lowest level allowed to sign off OJT hours under each scheme, with any per-method exceptions
+export const MINIMUM_SIGNING_LEVELS: Record<string, { default: string; methods?: Record<string, string> }> = {
+  "SNT-TC-1A": { default: "Level II" },
+  "ISO 9712": { default: "Level II" },
+};
+
+const FALLBACK_SIGNING_LEVEL = "Level II";
+
+export function requiredSigningLevel(scheme: string | null | undefined, method: string): string {
+  const rule = scheme ? MINIMUM_SIGNING_LEVELS[scheme] : undefined;
+  return rule?.methods?.[method] ?? rule?.default ?? FALLBACK_SIGNING_LEVEL;
+}
+
+// Whether a supervisor of the given level may sign hours in a method under a scheme
+export function canSignMethod(level: string, scheme: string | null | undefined, method: string): boolean {
+  const levels: readonly string[] = SUPERVISOR_LEVELS;
+  return levels.indexOf(level) >= levels.indexOf(requiredSigningLevel(scheme, method));
+}
+
+// Logging rate used for projections is taken over this many recent days
+export const PROJECTION_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LevelProgress {
+  level: string;
+  // Total verified hours in the method needed to reach the level
+  requiredHours: number;
+  remainingHours: number;
+  percent: number;
+  achieved: boolean;
+  // Null when achieved or when nothing has been logged recently
+  projectedCompletion: string | null;
+}
+
+export interface MethodProgress {
+  method: string;
+  verifiedHours: number;
+  pendingHours: number;
+  hoursPerWeek: number;
+  levels: LevelProgress[];
+}
+
+// Verified hours against a scheme's requirements, with completion projected from the recent logging rate.
+// Methods are listed in catalog order, followed by any the catalog no longer has.
+export function computeCertificationProgress(
+  entries: Entry[],
+  requirements: CertificationRequirement[],
+  methodCodes: string[],
+  now: Date = new Date(),
+): MethodProgress[] {
+  const windowStart = now.getTime() - PROJECTION_WINDOW_DAYS * DAY_MS;
+  const methods = Array.from(new Set([...methodCodes, ...requirements.map((r) => r.method)]));
+
+  return methods
+    .map((method) => {
+      const levelRequirements = CERTIFICATION_LEVELS.map((level) =>
+        requirements.find((r) => r.method === method && r.level === level),
+      );
+      if (levelRequirements.every((r) => !r)) return null;
+
+      // A split entry counts only its hours under this method
+      const methodEntries = entries
+        .filter((entry) => !entry.rejected)
+        .flatMap((entry) =>
+          entryLines(entry)
+            .filter((line) => line.method === method)
+            .map((line) => ({ ...entry, hours: line.hours })),
+        );
+      const verifiedHours = methodEntries
+        .filter((entry) => entry.verified)
+        .reduce((sum, entry) => sum + entry.hours, 0);
+      const pendingHours = methodEntries
+        .filter((entry) => !entry.verified)
+        .reduce((sum, entry) => sum + entry.hours, 0);
+      const recentHours = methodEntries
+        .filter((entry) => new Date(entry.date).getTime() >= windowStart)
+        .reduce((sum, entry) => sum + entry.hours, 0);
+      const hoursPerDay = recentHours / PROJECTION_WINDOW_DAYS;
+
+      // Each level's threshold is cumulative in the method, adding lower-level hours unless the requirement already includes them
+      let previousRequired = 0;
+      const levels: LevelProgress[] = [];
+      levelRequirements.forEach((requirement, i) => {
+        if (!requirement) return;
+
+        const requiredHours = requirement.includesLowerLevel
+          ? requirement.hours
+          : previousRequired + requirement.hours;
+        previousRequired = requiredHours;
+
+        const remainingHours = Math.max(0, requiredHours - verifiedHours);
+        const achieved = remainingHours === 0;
+        // Hours already logged but awaiting verification don't need logging again
+        const hoursToLog = Math.max(0, remainingHours - pendingHours);
+        levels.push({
+          level: CERTIFICATION_LEVELS[i],
+          requiredHours,
+          remainingHours,
+          percent: Math.min(100, (verifiedHours / requiredHours) * 100),
+          achieved,
+          projectedCompletion:
+            !achieved && hoursPerDay > 0
+              ? new Date(now.getTime() + (hoursToLog / hoursPerDay) * DAY_MS).toISOString()
+              : null,
+        });
+      });
+
+      return {
+        method,
+        verifiedHours,
+        pendingHours,
+        hoursPerWeek: hoursPerDay * 7,
+        levels,
+      };
+    })
+    .filter((progress): progress is MethodProgress => progress !== null);
+}
@@ -0,0 +1,82 @@
+import type { Entry, Job } from "./schema";
+
+// How a job is shown in pickers and reports, e.g. "Acme Refining – Baytown (WO 4411)"
+export function jobLabel(job: Pick<Job, "client" | "site" | "workOrder">): string {
+  const label = `${job.client} – ${job.site}`;
+  return job.workOrder ? `${label} (WO ${job.workOrder})` : label;
+}
+
+export interface HoursTotal {
+  hours: number;
+  verifiedHours: number;
+  entryCount: number;
+}
+
+export interface JobHours extends HoursTotal {
+  // Null for jobs the viewer can no longer see, such as another organization's
+  job: Job | null;
+  jobId: number;
+}
+
+export interface ClientHours extends HoursTotal {
+  client: string;
+  jobCount: number;
+}
+
+export interface JobHoursReport {
+  jobs: JobHours[];
+  clients: ClientHours[];
+  // Entries logged without a job, such as older free-text locations and imports
+  unassigned: HoursTotal;
+}
+
+const emptyTotal = (): HoursTotal => ({ hours: 0, verifiedHours: 0, entryCount: 0 });
+
+function addEntry(total: HoursTotal, entry: Pick<Entry, "hours" | "verified">) {
+  total.hours += entry.hours;
+  if (entry.verified) total.verifiedHours += entry.hours;
+  total.entryCount++;
+}
+
+// Hours per job and per client, busiest first; clients are matched on their name ignoring case
+export function summarizeJobHours(
+  entries: Pick<Entry, "jobId" | "hours" | "verified">[],
+  jobs: Job[],
+): JobHoursReport {
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  const byJob = new Map<number, JobHours>();
+  const unassigned = emptyTotal();
+
+  for (const entry of entries) {
+    if (entry.jobId === null) {
+      addEntry(unassigned, entry);
+      continue;
+    }
+
+    let total = byJob.get(entry.jobId);
+    if (!total) {
+      total = { ...emptyTotal(), jobId: entry.jobId, job: jobsById.get(entry.jobId) ?? null };
+      byJob.set(entry.jobId, total);
+    }
+    addEntry(total, entry);
+  }
+
+  const byClient = new Map<string, ClientHours>();
+  for (const total of Array.from(byJob.values())) {
+    const client = total.job?.client ?? "Unknown client";
+    const key = client.toLowerCase();
+    const clientTotal = byClient.get(key) ?? { ...emptyTotal(), client, jobCount: 0 };
+    clientTotal.hours += total.hours;
+    clientTotal.verifiedHours += total.verifiedHours;
+    clientTotal.entryCount += total.entryCount;
+    clientTotal.jobCount++;
+    byClient.set(key, clientTotal);
+  }
+
+  const byHours = (a: HoursTotal, b: HoursTotal) => b.hours - a.hours;
+  return {
+    jobs: Array.from(byJob.values()).sort(byHours),
+    clients: Array.from(byClient.values()).sort(byHours),
+    unassigned,
+  };
+}
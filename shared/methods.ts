@@ -0,0 +1,70 @@
+import type { Entry, MethodHours, NdtMethod } from "./schema";
+
+export type MethodColumn = Pick<NdtMethod, "code" | "label">;
+
+// Catalog order: sort order, then code
+export function sortMethods<T extends Pick<NdtMethod, "code" | "sortOrder">>(methods: T[]): T[] {
+  return [...methods].sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code));
+}
+
+export function methodLabel(methods: MethodColumn[], code: string): string {
+  return methods.find((method) => method.code === code)?.label ?? code;
+}
+
+// Active methods, then any inactive or unknown method that still has hours, so none drop out of a table or total
+export function methodColumns(
+  methods: Pick<NdtMethod, "code" | "label" | "sortOrder" | "active">[],
+  usedCodes: Iterable<string> = [],
+): MethodColumn[] {
+  const used = new Set(usedCodes);
+  const columns: MethodColumn[] = sortMethods(methods)
+    .filter((method) => method.active || used.has(method.code))
+    .map(({ code, label }) => ({ code, label }));
+
+  for (const code of Array.from(used)) {
+    if (!columns.some((column) => column.code === code)) {
+      columns.push({ code, label: code });
+    }
+  }
+  return columns;
+}
+
+// Entries, history rows and exported log rows all carry these; older snapshots have no lines
+export type EntryMethods = Pick<Entry, "method" | "hours"> & { lines?: MethodHours[] | null };
+
+// An entry's hours by method; an entry logged against one method is a single line
+export function entryLines(entry: EntryMethods): MethodHours[] {
+  return entry.lines?.length ? entry.lines : [{ method: entry.method, hours: entry.hours }];
+}
+
+// What an entry stores for its lines: the first method and the total, with the lines kept only for a split
+export function linesToEntry(lines: MethodHours[]): Pick<Entry, "method" | "hours" | "lines"> {
+  return {
+    method: lines[0].method,
+    hours: lines.reduce((sum, line) => sum + line.hours, 0),
+    lines: lines.length > 1 ? lines : null,
+  };
+}
+
+// One-line description of an entry's methods, e.g. "MT" or "MT 4.0 h + UT Thk. 4.0 h"
+export function entryMethodsLabel(methods: MethodColumn[], entry: EntryMethods): string {
+  const lines = entryLines(entry);
+  if (lines.length === 1) return methodLabel(methods, lines[0].method);
+  return lines.map((line) => `${methodLabel(methods, line.method)} ${line.hours.toFixed(1)} h`).join(" + ");
+}
+
+// Hours per method code across entries, counting each line of a split entry under its own method
+export function hoursByMethod(entries: EntryMethods[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const entry of entries) {
+    for (const line of entryLines(entry)) {
+      totals[line.method] = (totals[line.method] ?? 0) + line.hours;
+    }
+  }
+  return totals;
+}
+
+// Every method code an entry has hours under
+export function entryMethodCodes(entries: EntryMethods[]): string[] {
+  return entries.flatMap((entry) => entryLines(entry).map((line) => line.method));
+}
@@ -0,0 +1,80 @@
+// Roles a user can hold; a user may hold several, e.g. a trainee who also supervises
+export const Roles = {
+  TRAINEE: "trainee",
+  SUPERVISOR: "supervisor",
+  COORDINATOR: "coordinator",
+  AUDITOR: "auditor",
+  ORG_ADMIN: "org_admin",
+  ADMIN: "admin",
+} as const;
+
+export type Role = typeof Roles[keyof typeof Roles];
+
+export const roleLabels: Record<Role, string> = {
+  trainee: "Trainee",
+  supervisor: "Supervisor",
+  coordinator: "Level III / Training Coordinator",
+  auditor: "Auditor",
+  org_admin: "Organization Admin",
+  admin: "Admin",
+};
+
+// Everything a route or page can be gated on
+export const Permissions = {
+  // Own profile, supervisor claim and the requirements catalog; every signed-in user
+  PROFILE: "profile",
+  // Own entries, supervisor contacts, verification requests, imports, exports and certifications
+  OWN_LOG: "log:own",
+  // Supervisor dashboard: verify and reject entries addressed to the user
+  SIGN_ENTRIES: "entries:sign",
+  // Every user's entries, exports and signatures
+  READ_ENTRIES: "entries:read",
+  DELETE_ENTRIES: "entries:delete",
+  READ_USERS: "users:read",
+  // Delete users and assign roles
+  MANAGE_USERS: "users:manage",
+  MANAGE_REQUIREMENTS: "requirements:manage",
+  // Every user's certifications falling due
+  READ_CERTIFICATIONS: "certifications:read",
+  // Create organizations and move users between them; also lifts the organization limit on
+  // every other admin permission, which otherwise only covers the user's own organization
+  MANAGE_ORGANIZATIONS: "organizations:manage",
+} as const;
+
+export type Permission = typeof Permissions[keyof typeof Permissions];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  trainee: [Permissions.PROFILE, Permissions.OWN_LOG],
+  supervisor: [Permissions.PROFILE, Permissions.SIGN_ENTRIES],
+  coordinator: [
+    Permissions.PROFILE,
+    Permissions.READ_ENTRIES,
+    Permissions.READ_USERS,
+    Permissions.MANAGE_REQUIREMENTS,
+    Permissions.READ_CERTIFICATIONS,
+  ],
+  auditor: [
+    Permissions.PROFILE,
+    Permissions.READ_ENTRIES,
+    Permissions.READ_USERS,
+    Permissions.READ_CERTIFICATIONS,
+  ],
+  org_admin: [
+    Permissions.PROFILE,
+    Permissions.READ_ENTRIES,
+    Permissions.DELETE_ENTRIES,
+    Permissions.READ_USERS,
+    Permissions.MANAGE_USERS,
+    Permissions.READ_CERTIFICATIONS,
+  ],
+  admin: Object.values(Permissions),
+};
+
+export function hasPermission(
+  user: { roles?: string[] | null } | null | undefined,
+  permission: Permission,
+): boolean {
+  return (user?.roles ?? []).some((role) =>
+    ROLE_PERMISSIONS[role as Role]?.includes(permission),
+  );
+}
@@ -1,7 +1,49 @@
-import { pgTable, text, serial, timestamp, integer, real, boolean, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, real, boolean, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Company sharing the deployment; its members' data is only visible to its own admins
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  emailDomain: text("email_domain").unique(), // Users join automatically once they confirm an address at this domain
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: z.string().trim().min(1, "Name is required"),
+  emailDomain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, "Enter a domain such as example.com")
+    .nullable()
+    .optional(),
+}).pick({
+  name: true,
+  emailDomain: true,
+});
+
+// Languages emails can be written in
+export const LOCALES = ["en", "es"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+// Optional emails a user can switch off; unsubscribe links turn one off without signing in
+export interface NotificationPreferences {
+  weeklyDigest: boolean;
+  certificationReminders: boolean;
+}
+
+export type NotificationType = keyof NotificationPreferences;
+
+export const NOTIFICATION_TYPES: NotificationType[] = ["weeklyDigest", "certificationReminders"];
+
+// The weekly digest is opt-in
+export const defaultNotificationPreferences: NotificationPreferences = {
+  weeklyDigest: false,
+  certificationReminders: true,
+};
+
 // User model with password auth
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,9 +51,21 @@ export const users = pgTable("users", {
   password: text("password"),
   name: text("name"),
   employeeNumber: text("employee_number"),
-  isAdmin: boolean("is_admin").default(false),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  roles: text("roles").array().notNull().default(["trainee"]), // See shared/permissions.ts
+  isAdmin: boolean("is_admin").default(false), // Kept in step with roles; older rows are migrated from it at startup
+  isSupervisor: boolean("is_supervisor").default(false), // Claimed the supervisor contacts listed under this email
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
+  emailVerifiedAt: timestamp("email_verified_at"), // Set on the first magic link or password reset, proving the user can read the inbox
+  certificationScheme: text("certification_scheme").default("SNT-TC-1A"),
+  employmentStartDate: timestamp("employment_start_date"), // Set by admins; hours dated earlier are rejected
+  locale: text("locale").$type<Locale>().notNull().default("en"), // Language of the emails the user receives
+  notificationPreferences: jsonb("notification_preferences")
+    .$type<NotificationPreferences>()
+    .notNull()
+    .default(defaultNotificationPreferences),
+  lastDigestAt: timestamp("last_digest_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -22,29 +76,109 @@ export const insertUserSchema = createInsertSchema(users).pick({
   employeeNumber: true,
 });
 
+// Client job that hours are booked against; shared by everyone in the creator's organization
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // Null when the creator has no organization
+  // Null once the creator's account is deleted; the job stays for the rest of the organization
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  client: text("client").notNull(),
+  site: text("site").notNull(),
+  workOrder: text("work_order"), // Work order or PO number
+  startDate: timestamp("start_date"),
+  endDate: timestamp("end_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  client: z.string().trim().min(1, "Client is required"),
+  site: z.string().trim().min(1, "Site is required"),
+  workOrder: z.string().trim().nullable().optional(),
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+})
+  .pick({
+    organizationId: true,
+    createdBy: true,
+    client: true,
+    site: true,
+    workOrder: true,
+    startDate: true,
+    endDate: true,
+  })
+  .refine((job) => !job.startDate || !job.endDate || job.endDate >= job.startDate, {
+    message: "End date cannot be before the start date",
+    path: ["endDate"],
+  });
+
 // OJT Log Entry model
+// Entry rules; see server/rules.ts
+export type EntryRule = "daily-maximum" | "daily-warning" | "future-date" | "before-employment" | "duplicate";
+
+// Why the entry rules flagged an entry for a closer look
+export interface EntryFlag {
+  rule: EntryRule;
+  message: string;
+}
+
+// One method's share of a workday logged as a single entry, as on the paper form
+export interface MethodHours {
+  method: string;
+  hours: number;
+}
+
+export const methodHoursSchema = z.object({
+  method: z.string().trim().toUpperCase().min(1, "Method is required"),
+  hours: z.number().positive("Hours must be greater than 0"),
+});
+
 export const entries = pgTable("entries", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   date: timestamp("date").notNull(),
   location: text("location").notNull(),
-  method: text("method").notNull(), // ET, RFT, MT, PT, RT, UT_THK, UTSW, PMI, LSI
-  hours: real("hours").notNull(),
+  method: text("method").notNull(), // Code from ndt_methods; the first line's method on a split entry
+  hours: real("hours").notNull(), // Total across the lines on a split entry
+  lines: jsonb("lines").$type<MethodHours[]>(), // Set when the workday is split across methods
+  jobId: integer("job_id").references(() => jobs.id),
   verified: boolean("verified").default(false),
   verifiedBy: text("verified_by"),
-  verificationToken: uuid("verification_token").unique(),
+  verifierEmail: text("verifier_email"),
+  verificationRequestId: integer("verification_request_id").references(() => verificationRequests.id),
   verifiedAt: timestamp("verified_at"),
+  signature: text("signature"), // Ed25519 over the verified values, base64
+  signatureKeyId: text("signature_key_id"),
+  rejected: boolean("rejected").default(false),
+  rejectedBy: text("rejected_by"),
+  rejectionReason: text("rejection_reason"),
+  rejectedAt: timestamp("rejected_at"),
+  flags: jsonb("flags").$type<EntryFlag[]>().notNull().default([]), // Warnings from the entry rules when last saved
+  imported: boolean("imported").default(false), // Copied from a paper log; still needs verification here
+  importedVerifier: text("imported_verifier"), // Who signed the paper log, if recorded
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertEntrySchema = createInsertSchema(entries).pick({
+export const insertEntrySchema = createInsertSchema(entries, {
+  lines: z
+    .array(methodHoursSchema)
+    .refine((lines) => new Set(lines.map((line) => line.method)).size === lines.length, {
+      message: "Each method can only appear once in an entry",
+    })
+    .nullable()
+    .optional(),
+}).pick({
   userId: true,
   date: true,
   location: true,
   method: true,
   hours: true,
+  lines: true,
+  jobId: true,
 });
 
+// Fields a trainee may change on their own unverified entries
+export const updateEntrySchema = insertEntrySchema.omit({ userId: true }).partial();
+
 // Supervisor model
 export const supervisors = pgTable("supervisors", {
   id: serial("id").primaryKey(),
@@ -54,6 +188,7 @@ export const supervisors = pgTable("supervisors", {
   phone: text("phone").notNull(),
   certificationLevel: text("certification_level").notNull(),
   company: text("company").notNull(),
+  accountId: integer("account_id").references(() => users.id), // Supervisor's own account, once claimed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -66,27 +201,234 @@ export const insertSupervisorSchema = createInsertSchema(supervisors).pick({
   company: true,
 });
 
+// Verification request sent to one supervisor covering one or more entries
+// (only the SHA-256 hash of the emailed token is stored)
+export const verificationRequests = pgTable("verification_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  supervisorId: integer("supervisor_id").notNull().references(() => supervisors.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  revokedAt: timestamp("revoked_at"),
+  codeHash: text("code_hash"), // One-time code emailed to the supervisor to confirm who is signing
+  codeExpiresAt: timestamp("code_expires_at"),
+  codeAttempts: integer("code_attempts").default(0),
+  reminderCount: integer("reminder_count").notNull().default(0), // Reminders sent to the supervisor while it sits unanswered
+  lastRemindedAt: timestamp("last_reminded_at"),
+  escalatedAt: timestamp("escalated_at"), // The trainee was told the supervisor isn't responding; reminders stop
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// History of each verification round for an entry, with the values as they were at the time
+export const entryHistory = pgTable("entry_history", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => entries.id, { onDelete: "cascade" }),
+  verificationRequestId: integer("verification_request_id").references(() => verificationRequests.id),
+  action: text("action").notNull(), // requested, edited, verified, rejected
+  actorName: text("actor_name"),
+  actorEmail: text("actor_email"),
+  actorIp: text("actor_ip"),
+  actorUserAgent: text("actor_user_agent"),
+  comment: text("comment"),
+  date: timestamp("date").notNull(),
+  location: text("location").notNull(),
+  method: text("method").notNull(),
+  hours: real("hours").notNull(),
+  lines: jsonb("lines").$type<MethodHours[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// NDT methods hours can be logged against; every method list, column and total is built from this
+export const ndtMethods = pgTable("ndt_methods", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored on entries, e.g. UT_THK; cannot change once created
+  label: text("label").notNull(), // Shown in forms, tables and exports, e.g. UT Thk.
+  sortOrder: integer("sort_order").notNull().default(0),
+  active: boolean("active").notNull().default(true), // Inactive methods can't be picked for new records
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertNdtMethodSchema = createInsertSchema(ndtMethods, {
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_]+$/, "Use letters, digits and underscores, e.g. PAUT"),
+  label: z.string().trim().min(1, "Label is required"),
+  sortOrder: z.number().int(),
+}).pick({
+  code: true,
+  label: true,
+  sortOrder: true,
+  active: true,
+});
+
+// Everything but the code, which entries refer to
+export const updateNdtMethodSchema = insertNdtMethodSchema.omit({ code: true }).partial();
+
+// Experience hours required for certification, per scheme, method and level
+export const certificationRequirements = pgTable("certification_requirements", {
+  id: serial("id").primaryKey(),
+  scheme: text("scheme").notNull(), // e.g. SNT-TC-1A, ISO 9712
+  method: text("method").notNull(),
+  level: text("level").notNull(), // Level I, Level II
+  hours: real("hours").notNull(),
+  // When false, Level II hours are in addition to the Level I hours
+  includesLowerLevel: boolean("includes_lower_level").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  schemeMethodLevel: unique().on(table.scheme, table.method, table.level),
+}));
+
+export const insertCertificationRequirementSchema = createInsertSchema(certificationRequirements, {
+  level: z.enum(["Level I", "Level II"]),
+  hours: z.number().positive(),
+}).pick({
+  scheme: true,
+  method: true,
+  level: true,
+  hours: true,
+  includesLowerLevel: true,
+});
+
+// Certifications a technician holds, with the dates that keep them current
+export const certifications = pgTable("certifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  method: text("method").notNull(),
+  level: text("level").notNull(), // Level I, Level II, Level III
+  scheme: text("scheme").notNull(),
+  certificateNumber: text("certificate_number").notNull(),
+  issuedBy: text("issued_by").notNull(), // Issuing Level III
+  issuedAt: timestamp("issued_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  visionExamAt: timestamp("vision_exam_at"),
+  // Smallest reminder threshold (in days) already emailed, cleared when the date moves
+  expiryReminderDays: integer("expiry_reminder_days"),
+  visionReminderDays: integer("vision_reminder_days"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCertificationSchema = createInsertSchema(certifications, {
+  level: z.enum(["Level I", "Level II", "Level III"]),
+  certificateNumber: z.string().min(1, "Certificate number is required"),
+  issuedBy: z.string().min(1, "Issuing Level III is required"),
+  issuedAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+  visionExamAt: z.coerce.date().nullable().optional(),
+}).pick({
+  userId: true,
+  method: true,
+  level: true,
+  scheme: true,
+  certificateNumber: true,
+  issuedBy: true,
+  issuedAt: true,
+  expiresAt: true,
+  visionExamAt: true,
+});
+
+// Fields a technician may change on their own certifications
+export const updateCertificationSchema = insertCertificationSchema.omit({ userId: true }).partial();
+
+// What an exported log showed when it was issued
+export interface ExportSnapshot {
+  technician: { name: string | null; employeeNumber: string | null };
+  // Method columns as labelled at the time; absent on logs issued before the method catalog
+  methods?: { code: string; label: string }[];
+  entries: {
+    id: number;
+    date: string;
+    location: string;
+    method: string;
+    hours: number;
+    lines?: MethodHours[] | null;
+    verifiedBy: string | null;
+    verifiedAt: string | null;
+  }[];
+  totals: Record<string, number>;
+  totalHours: number;
+}
+
+// Exported OJT logs, looked up by the document ID printed on the PDF
+export const exportedLogs = pgTable("exported_logs", {
+  id: serial("id").primaryKey(),
+  documentId: text("document_id").notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  snapshot: jsonb("snapshot").$type<ExportSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every outbound email, queued and sent by the mail worker with retries; see server/mail.ts.
+// The body is cleared once sent, since links in it carry tokens that are otherwise only stored hashed.
+export const outboundEmails = pgTable("outbound_emails", {
+  id: serial("id").primaryKey(),
+  to: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  headers: jsonb("headers").$type<Record<string, string>>(), // Extra headers, e.g. List-Unsubscribe
+  status: text("status").$type<EmailStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  // Set on verification request emails so the trainee can see whether their supervisor was reached
+  verificationRequestId: integer("verification_request_id").references(() => verificationRequests.id, {
+    onDelete: "set null",
+  }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Magic link login tokens (only the SHA-256 hash of the token is stored)
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Types
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
 export type Entry = typeof entries.$inferSelect;
 export type InsertEntry = z.infer<typeof insertEntrySchema>;
+export type UpdateEntry = z.infer<typeof updateEntrySchema>;
 
 export type Supervisor = typeof supervisors.$inferSelect;
 export type InsertSupervisor = z.infer<typeof insertSupervisorSchema>;
 
-// Enum of NDT methods
-export const NDTMethods = {
-  ET: "ET",
-  RFT: "RFT",
-  MT: "MT",
-  PT: "PT",
-  RT: "RT",
-  UT_THK: "UT_THK",
-  UTSW: "UTSW",
-  PMI: "PMI",
-  LSI: "LSI",
-} as const;
-
-export type NDTMethod = keyof typeof NDTMethods;
+export type VerificationRequest = typeof verificationRequests.$inferSelect;
+
+export type EntryHistory = typeof entryHistory.$inferSelect;
+export type EntryHistoryAction = "requested" | "edited" | "verified" | "rejected";
+
+export type NdtMethod = typeof ndtMethods.$inferSelect;
+export type InsertNdtMethod = z.infer<typeof insertNdtMethodSchema>;
+export type UpdateNdtMethod = z.infer<typeof updateNdtMethodSchema>;
+
+export type CertificationRequirement = typeof certificationRequirements.$inferSelect;
+export type InsertCertificationRequirement = z.infer<typeof insertCertificationRequirementSchema>;
+
+export type Certification = typeof certifications.$inferSelect;
+export type InsertCertification = z.infer<typeof insertCertificationSchema>;
+export type UpdateCertification = z.infer<typeof updateCertificationSchema>;
+
+export type ExportedLog = typeof exportedLogs.$inferSelect;
+
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+
+// Queued and sending are both still on their way; failed has used up its retries
+export type EmailStatus = "queued" | "sending" | "sent" | "failed";
+export type OutboundEmail = typeof outboundEmails.$inferSelect;
+export type InsertOutboundEmail = typeof outboundEmails.$inferInsert;